@@ -4,6 +4,9 @@ import { ProtectedRoute } from './src/context/ProtectedRoute';
 import { InstallPrompt } from './InstallPrompt';
 import AuthPage from './pages/AuthPage';
 import Dashboard from './pages/Dashboard';
+import PaymentRequestPage from './pages/PaymentRequestPage';
+import ReceiptVerificationPage from './pages/ReceiptVerificationPage';
+import PaymentLinkPage from './pages/PaymentLinkPage';
 
 const App: React.FC = () => {
   return (
@@ -29,6 +32,32 @@ const App: React.FC = () => {
           } 
         />
 
+        {/* Shared payment request link */}
+        <Route 
+          path="/request/:requestId" 
+          element={
+            <ProtectedRoute requireAuth={true}>
+              <PaymentRequestPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        {/* Payment link - opens the send flow pre-filled */}
+        <Route 
+          path="/pay/:recipient" 
+          element={
+            <ProtectedRoute requireAuth={true}>
+              <PaymentLinkPage />
+            </ProtectedRoute>
+          } 
+        />
+
+        {/* Public receipt verification - no sign-in needed */}
+        <Route 
+          path="/receipt/:transactionId" 
+          element={<ReceiptVerificationPage />} 
+        />
+
         {/* Catch-all redirect */}
         <Route 
           path="*" 
@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { X, ListOrdered, Loader2 } from 'lucide-react';
+import { OrderService } from '../src/lib/orderService';
+import { CryptoService } from '../src/lib/cryptoService';
+import { SwapService } from '../src/lib/swapService';
+import { CryptoOrder, CryptoOrderStatus, CryptoOrderType, Profile, TradeSide } from '../src/context/types';
+
+interface CryptoOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: Profile;
+  onChange?: () => void;
+}
+
+const FEE_RATE = 0.01;
+
+const statusStyles: Record<CryptoOrderStatus, string> = {
+  open: 'bg-ethblue/10 text-ethblue',
+  filled: 'bg-green-500/10 text-green-400',
+  cancelled: 'bg-slate-500/10 text-slate-400',
+};
+
+const CryptoOrdersModal: React.FC<CryptoOrdersModalProps> = ({
+  isOpen,
+  onClose,
+  currentUser,
+  onChange
+}) => {
+  const supportedAssets = CryptoService.getSupportedAssets();
+
+  const [orders, setOrders] = useState<CryptoOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [marketPrices, setMarketPrices] = useState<Record<string, number>>({});
+  const [holdings, setHoldings] = useState<Record<string, number>>({});
+  const [side, setSide] = useState<TradeSide>('buy');
+  const [orderType, setOrderType] = useState<CryptoOrderType>('limit');
+  const [symbol, setSymbol] = useState('BTC');
+  const [amount, setAmount] = useState('');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [placing, setPlacing] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchOrders();
+    OrderService.getMarketPrices(supportedAssets.map(a => a.symbol)).then(setMarketPrices);
+  }, [isOpen, currentUser.id]);
+
+  if (!isOpen) return null;
+
+  const fetchOrders = async () => {
+    setLoading(true);
+    const [orderData, balanceData] = await Promise.all([
+      OrderService.getOrders(currentUser.id),
+      SwapService.getBalances(currentUser.id),
+    ]);
+    setOrders(orderData);
+    setHoldings(balanceData);
+    setLoading(false);
+  };
+
+  const amountNum = parseFloat(amount);
+  const triggerNum = parseFloat(triggerPrice);
+  const valid = amountNum > 0 && triggerNum > 0;
+  const orderValue = valid ? Math.round(amountNum * triggerNum * 100) / 100 : 0;
+  const reserve = side === 'buy' ? orderValue + Math.round(orderValue * FEE_RATE * 100) / 100 : 0;
+  const marketPrice = marketPrices[symbol];
+  const held = holdings[symbol] ?? 0;
+
+  const handleSideChange = (next: TradeSide) => {
+    setSide(next);
+    if (next === 'buy') setOrderType('limit');
+    setError('');
+  };
+
+  const handlePlace = async () => {
+    setError('');
+    setNotice('');
+
+    if (!valid) {
+      setError('Enter an amount and a trigger price');
+      return;
+    }
+
+    if (side === 'buy' && reserve > currentUser.balance) {
+      setError(`Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
+      return;
+    }
+
+    if (side === 'sell' && amountNum > held) {
+      setError(`Insufficient balance. Available: ${held} ${symbol}`);
+      return;
+    }
+
+    setPlacing(true);
+    const result = await OrderService.placeOrder({
+      side,
+      order_type: orderType,
+      symbol,
+      crypto_amount: amountNum,
+      trigger_price: triggerNum,
+    });
+    setPlacing(false);
+
+    if (!result.success || !result.order) {
+      setError(result.error || 'Failed to place order');
+      return;
+    }
+
+    setNotice(result.order.status === 'filled'
+      ? `Order filled at ₱${Number(result.order.fill_price).toFixed(2)}`
+      : 'Order placed');
+    setAmount('');
+    setTriggerPrice('');
+    await fetchOrders();
+    onChange?.();
+  };
+
+  const handleCancel = async (orderId: string) => {
+    setError('');
+    setNotice('');
+    setCancellingId(orderId);
+    const result = await OrderService.cancelOrder(orderId);
+    setCancellingId(null);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to cancel order');
+      return;
+    }
+
+    await fetchOrders();
+    onChange?.();
+  };
+
+  const describe = (order: CryptoOrder) => {
+    if (order.order_type === 'stop') return 'Stop-loss';
+    return order.side === 'buy' ? 'Limit buy' : 'Limit sell';
+  };
+
+  const handleClose = () => {
+    setAmount('');
+    setTriggerPrice('');
+    setError('');
+    setNotice('');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+              <ListOrdered className="w-5 h-5 text-ethblue" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Crypto Orders</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+
+          {/* New Order */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 bg-black/30 p-1 rounded-xl">
+              {(['buy', 'sell'] as TradeSide[]).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => handleSideChange(s)}
+                  className={`py-2 rounded-lg text-sm font-bold capitalize transition-colors ${
+                    side === s ? 'bg-ethblue text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                  Asset
+                </label>
+                <select
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+                >
+                  {supportedAssets.map((asset) => (
+                    <option key={asset.symbol} value={asset.symbol}>
+                      {asset.symbol}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                  Type
+                </label>
+                <select
+                  value={orderType}
+                  onChange={(e) => setOrderType(e.target.value as CryptoOrderType)}
+                  className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+                >
+                  <option value="limit">Limit</option>
+                  {side === 'sell' && <option value="stop">Stop-loss</option>}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                  Amount ({symbol})
+                </label>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0"
+                  step="any"
+                  min="0"
+                  className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                  {orderType === 'stop' ? 'Stop Price (₱)' : 'Limit Price (₱)'}
+                </label>
+                <input
+                  type="number"
+                  value={triggerPrice}
+                  onChange={(e) => setTriggerPrice(e.target.value)}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                  className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                />
+              </div>
+            </div>
+
+            <div className="bg-black/30 rounded-2xl p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-slate-400">Market price</span>
+                <span className="text-white font-medium">
+                  {marketPrice ? `₱${marketPrice.toFixed(2)}` : '...'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">{side === 'buy' ? 'Reserved now' : 'Available'}</span>
+                <span className="text-white font-medium">
+                  {side === 'buy' ? `₱${reserve.toFixed(2)} (incl. 1% fee)` : `${held} ${symbol}`}
+                </span>
+              </div>
+              <p className="text-slate-500 text-xs pt-1">
+                {orderType === 'stop'
+                  ? `Sells at market once ${symbol} falls to your stop price`
+                  : side === 'buy'
+                    ? `Fills when ${symbol} is at or below your limit; any difference is returned`
+                    : `Fills when ${symbol} is at or above your limit`}
+              </p>
+            </div>
+
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {notice && (
+              <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4">
+                <p className="text-green-400 text-sm">{notice}</p>
+              </div>
+            )}
+
+            <button
+              onClick={handlePlace}
+              disabled={!valid || placing}
+              className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
+            >
+              {placing && <Loader2 className="w-5 h-5 animate-spin" />}
+              Place {orderType === 'stop' ? 'Stop-loss' : `Limit ${side === 'buy' ? 'Buy' : 'Sell'}`}
+            </button>
+          </div>
+
+          {/* Order Book */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">Your Orders</h3>
+
+            {loading ? (
+              <div className="py-6 flex justify-center">
+                <Loader2 className="w-6 h-6 text-ethblue animate-spin" />
+              </div>
+            ) : orders.length === 0 ? (
+              <p className="text-slate-500 text-sm text-center py-6">No orders yet</p>
+            ) : (
+              orders.map((order) => (
+                <div key={order.id} className="bg-black/30 border border-white/5 rounded-2xl p-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-white font-bold text-sm">
+                        {describe(order)} {order.crypto_amount} {order.symbol}
+                      </p>
+                      <p className="text-slate-500 text-xs mt-0.5">
+                        {order.status === 'filled'
+                          ? `Filled at ₱${Number(order.fill_price).toFixed(2)}`
+                          : `Trigger ₱${Number(order.trigger_price).toFixed(2)}`}
+                        {order.status === 'open' && order.side === 'buy' && ` · ₱${Number(order.reserved_php).toFixed(2)} reserved`}
+                      </p>
+                    </div>
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full flex-shrink-0 ${statusStyles[order.status]}`}>
+                      {order.status}
+                    </span>
+                  </div>
+                  {order.status === 'open' && (
+                    <button
+                      onClick={() => handleCancel(order.id)}
+                      disabled={cancellingId === order.id}
+                      className="text-xs font-bold text-slate-500 hover:text-red-400 disabled:opacity-50 transition-colors mt-2"
+                    >
+                      {cancellingId === order.id ? 'Cancelling...' : 'Cancel order'}
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CryptoOrdersModal;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../src/context/AuthContext';
 import { supabase } from '../src/lib/supabase';
-import { Profile, ActiveTab } from '../src/context/types';
+import { Profile, ActiveTab, SendPrefill, ScannedPayment, TradeSide } from '../src/context/types';
 import { 
   Send, 
   QrCode, 
@@ -13,11 +14,22 @@ import {
   Layers,
   Repeat,
   Clock,
-  Settings
+  Settings,
+  CalendarClock,
+  ChevronRight,
+  ListOrdered
 } from 'lucide-react';
 import SendFundsModal from './SendFundsModal';
 import QRScannerModal from './QRScannerModal';
 import ReceiveFundsModal from './RecieveFundsModal';
+import RequestFundsModal from './RequestFundsModal';
+import PaymentRequestsPanel from './PaymentRequestsPanel';
+import ScheduledTransfersModal from './ScheduledTransfersModal';
+import TradeCryptoModal from './TradeCryptoModal';
+import CryptoOrdersModal from './CryptoOrdersModal';
+import SplitGroupsPanel from './SplitGroupsPanel';
+import { ScheduledTransferService } from '../src/lib/scheduledTransferService';
+import { RecurringBuyService } from '../src/lib/recurringBuyService';
 import AssetsTab from '../src/tabs/AssetsTab';
 import SwapTab from '../src/tabs/SwapTab';
 import ActivityTab from '../src/tabs/ActivityTabs';
@@ -27,12 +39,23 @@ const Dashboard: React.FC = () => {
   const { profile: authProfile, signOut, refreshProfile } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(authProfile);
   const [refreshing, setRefreshing] = useState(false);
-  const [activeTab, setActiveTab] = useState<ActiveTab>('wallet');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [activeTab, setActiveTab] = useState<ActiveTab>(
+    searchParams.get('tab') === 'activity' ? 'activity' : 'wallet'
+  );
   
   // Modal states
   const [sendModalOpen, setSendModalOpen] = useState(false);
+  const [sendPrefill, setSendPrefill] = useState<SendPrefill | null>(null);
   const [receiveModalOpen, setReceiveModalOpen] = useState(false);
   const [qrScannerOpen, setQrScannerOpen] = useState(false);
+  const [requestModalOpen, setRequestModalOpen] = useState(false);
+  const [requestsRefreshKey, setRequestsRefreshKey] = useState(0);
+  const [schedulesModalOpen, setSchedulesModalOpen] = useState(false);
+  const [tradeSide, setTradeSide] = useState<TradeSide | null>(null);
+  const [ordersModalOpen, setOrdersModalOpen] = useState(false);
   
   // Animation state for balance changes
   const [balanceChanged, setBalanceChanged] = useState(false);
@@ -86,6 +109,33 @@ const Dashboard: React.FC = () => {
     };
   }, [profile?.id]);
 
+  // Execute any scheduled transfers and recurring buys that fell due while
+  // the app was closed
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    Promise.all([
+      ScheduledTransferService.runDueSchedules(profile.id),
+      RecurringBuyService.runDuePlans(profile.id),
+    ]).then(([transfers, buys]) => {
+      if (transfers + buys > 0) {
+        refreshProfile();
+      }
+    });
+  }, [profile?.id]);
+
+  // Payment links arrive as navigation state (see PaymentLinkPage)
+  useEffect(() => {
+    const prefill = (location.state as { sendPrefill?: SendPrefill } | null)?.sendPrefill;
+    if (!prefill) return;
+
+    setSendPrefill(prefill);
+    setActiveTab('wallet');
+    setSendModalOpen(true);
+    // Drop the state so a refresh does not reopen the modal
+    navigate(`${location.pathname}${location.search}`, { replace: true, state: null });
+  }, [location.state]);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await refreshProfile();
@@ -96,8 +146,23 @@ const Dashboard: React.FC = () => {
     handleRefresh();
   };
 
-  const handleQRScanSuccess = (userId: string, username?: string) => {
+  // Activity filters live in the URL; drop them when switching tabs
+  const selectTab = (tab: ActiveTab) => {
+    setActiveTab(tab);
+    if (searchParams.toString()) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+
+  // Scanned codes are already verified; go straight to the confirm step
+  const handleQRScanSuccess = (payment: ScannedPayment) => {
     setQrScannerOpen(false);
+    setSendPrefill({
+      recipient: payment.userId,
+      amount: payment.amount,
+      description: payment.memo,
+      skipToConfirm: true,
+    });
     setSendModalOpen(true);
   };
 
@@ -190,16 +255,57 @@ const Dashboard: React.FC = () => {
                 label="Receive" 
                 onClick={() => setReceiveModalOpen(true)}
               />
-              <ActionButton icon={<DollarSign />} label="Buy" onClick={() => {}} />
-              <ActionButton icon={<BanknoteArrowDown />} label="Sell" onClick={() => {}} />
+              <ActionButton icon={<DollarSign />} label="Buy" onClick={() => setTradeSide('buy')} />
+              <ActionButton icon={<BanknoteArrowDown />} label="Sell" onClick={() => setTradeSide('sell')} />
             </section>
 
+            {/* Incoming Payment Requests */}
+            <PaymentRequestsPanel
+              currentUser={profile}
+              onNewRequest={() => setRequestModalOpen(true)}
+              onPaid={handleRefresh}
+              refreshKey={requestsRefreshKey}
+            />
+
+            {/* Split-Bill Groups */}
+            <SplitGroupsPanel currentUser={profile} onSettled={handleRefresh} />
+
+            {/* Scheduled Transfers */}
+            <button
+              onClick={() => setSchedulesModalOpen(true)}
+              className="w-full bg-cardbg border border-white/5 rounded-2xl p-4 flex items-center gap-4 hover:border-white/10 transition-all text-left"
+            >
+              <div className="w-10 h-10 rounded-full bg-ethblue/10 flex items-center justify-center">
+                <CalendarClock className="w-5 h-5 text-ethblue" />
+              </div>
+              <div className="flex-1">
+                <p className="text-white font-bold text-sm">Scheduled Transfers</p>
+                <p className="text-slate-500 text-xs mt-0.5">Recurring allowances, rent and future payments</p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-600" />
+            </button>
+
+            {/* Crypto Orders */}
+            <button
+              onClick={() => setOrdersModalOpen(true)}
+              className="w-full bg-cardbg border border-white/5 rounded-2xl p-4 flex items-center gap-4 hover:border-white/10 transition-all text-left"
+            >
+              <div className="w-10 h-10 rounded-full bg-ethblue/10 flex items-center justify-center">
+                <ListOrdered className="w-5 h-5 text-ethblue" />
+              </div>
+              <div className="flex-1">
+                <p className="text-white font-bold text-sm">Crypto Orders</p>
+                <p className="text-slate-500 text-xs mt-0.5">Limit buys and sells, and stop-losses</p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-600" />
+            </button>
+
             {/* Portfolio Preview */}
             <section className="space-y-6">
               <div className="flex items-center justify-between">
                 <h3 className="text-xl font-bold text-white tracking-tight">Portfolio</h3>
                 <button 
-                  onClick={() => setActiveTab('assets')}
+                  onClick={() => selectTab('assets')}
                   className="text-xs font-bold text-ethblue uppercase tracking-widest hover:text-white transition-colors"
                 >
                   View All
@@ -215,7 +321,7 @@ const Dashboard: React.FC = () => {
                   <p className="text-slate-500 text-xs mt-1">Start building your portfolio</p>
                 </div>
                 <button 
-                  onClick={() => setActiveTab('assets')}
+                  onClick={() => selectTab('assets')}
                   className="bg-ethblue/20 hover:bg-ethblue/30 text-ethblue text-[10px] font-black uppercase tracking-widest px-6 py-2 rounded-full transition-all"
                 >
                   Get Started
@@ -252,39 +358,43 @@ const Dashboard: React.FC = () => {
           icon={<Wallet />} 
           label="Wallet" 
           active={activeTab === 'wallet'}
-          onClick={() => setActiveTab('wallet')}
+          onClick={() => selectTab('wallet')}
         />
         <NavTab 
           icon={<Layers />} 
           label="Assets" 
           active={activeTab === 'assets'}
-          onClick={() => setActiveTab('assets')}
+          onClick={() => selectTab('assets')}
         />
         <NavTab 
           icon={<Repeat />} 
           label="Swap" 
           active={activeTab === 'swap'}
-          onClick={() => setActiveTab('swap')}
+          onClick={() => selectTab('swap')}
         />
         <NavTab 
           icon={<Clock />} 
           label="Activity" 
           active={activeTab === 'activity'}
-          onClick={() => setActiveTab('activity')}
+          onClick={() => selectTab('activity')}
         />
         <NavTab 
           icon={<Settings />} 
           label="Settings" 
           active={activeTab === 'settings'}
-          onClick={() => setActiveTab('settings')}
+          onClick={() => selectTab('settings')}
         />
       </nav>
 
       {/* Modals */}
       <SendFundsModal
         isOpen={sendModalOpen}
-        onClose={() => setSendModalOpen(false)}
+        onClose={() => {
+          setSendModalOpen(false);
+          setSendPrefill(null);
+        }}
         currentUser={profile}
+        prefill={sendPrefill}
         onSuccess={handleSendSuccess}
         onOpenQRScanner={() => {
           setSendModalOpen(false);
@@ -298,6 +408,34 @@ const Dashboard: React.FC = () => {
         currentUser={profile}
       />
 
+      <RequestFundsModal
+        isOpen={requestModalOpen}
+        onClose={() => setRequestModalOpen(false)}
+        currentUser={profile}
+        onSuccess={() => setRequestsRefreshKey(k => k + 1)}
+      />
+
+      <ScheduledTransfersModal
+        isOpen={schedulesModalOpen}
+        onClose={() => setSchedulesModalOpen(false)}
+        currentUser={profile}
+      />
+
+      <TradeCryptoModal
+        isOpen={tradeSide !== null}
+        onClose={() => setTradeSide(null)}
+        currentUser={profile}
+        side={tradeSide ?? 'buy'}
+        onSuccess={handleRefresh}
+      />
+
+      <CryptoOrdersModal
+        isOpen={ordersModalOpen}
+        onClose={() => setOrdersModalOpen(false)}
+        currentUser={profile}
+        onChange={handleRefresh}
+      />
+
       <QRScannerModal
         isOpen={qrScannerOpen}
         onClose={() => setQrScannerOpen(false)}
@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Users, Loader2, Plus, ArrowRight, CheckCircle2, Receipt, UserPlus } from 'lucide-react';
+import { GroupService } from '../src/lib/groupService';
+import { ExpenseGroup, GroupSummary, Profile, SettlementSuggestion } from '../src/context/types';
+
+interface GroupDetailModalProps {
+  group: ExpenseGroup;
+  currentUser: Profile;
+  onClose: () => void;
+  onSettled: () => void;
+}
+
+const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
+  group: initialGroup,
+  currentUser,
+  onClose,
+  onSettled
+}) => {
+  const [summary, setSummary] = useState<GroupSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [payingKey, setPayingKey] = useState<string | null>(null);
+
+  // Add expense form
+  const [showExpenseForm, setShowExpenseForm] = useState(false);
+  const [expenseAmount, setExpenseAmount] = useState('');
+  const [expenseDescription, setExpenseDescription] = useState('');
+  const [participants, setParticipants] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Add member form
+  const [newMember, setNewMember] = useState('');
+
+  // Keep the idempotency key for a settlement stable across retries
+  const settlementKeys = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    fetchSummary();
+  }, [initialGroup.id]);
+
+  const fetchSummary = async () => {
+    setLoading(true);
+    try {
+      const group = (await GroupService.getGroup(initialGroup.id)) || initialGroup;
+      const data = await GroupService.getGroupSummary(group);
+      setSummary(data);
+      setParticipants(data.group.members.map(m => m.profile_id));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const memberName = (profileId: string) => {
+    if (profileId === currentUser.id) return 'You';
+    return summary?.group.members.find(m => m.profile_id === profileId)?.full_name || 'Unknown User';
+  };
+
+  const suggestionKey = (s: SettlementSuggestion) => `${s.from_profile_id}:${s.to_profile_id}:${s.amount}`;
+
+  const handlePay = async (suggestion: SettlementSuggestion) => {
+    if (!summary) return;
+
+    if (suggestion.amount > currentUser.balance) {
+      setError(`Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
+      return;
+    }
+
+    const key = suggestionKey(suggestion);
+    let idempotencyKey = settlementKeys.current.get(key);
+    if (!idempotencyKey) {
+      idempotencyKey = crypto.randomUUID();
+      settlementKeys.current.set(key, idempotencyKey);
+    }
+
+    setError('');
+    setPayingKey(key);
+
+    const result = await GroupService.settle(summary.group.id, suggestion, summary.group.name, idempotencyKey);
+
+    setPayingKey(null);
+
+    if (result.success) {
+      settlementKeys.current.delete(key);
+      onSettled();
+      fetchSummary();
+    } else {
+      setError(result.error || 'Payment failed');
+    }
+  };
+
+  const handleAddExpense = async () => {
+    if (!summary) return;
+
+    const amountNum = parseFloat(expenseAmount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+
+    const result = await GroupService.addExpense(
+      summary.group.id,
+      currentUser.id,
+      amountNum,
+      expenseDescription,
+      participants
+    );
+
+    setSaving(false);
+
+    if (result.success) {
+      setShowExpenseForm(false);
+      setExpenseAmount('');
+      setExpenseDescription('');
+      fetchSummary();
+    } else {
+      setError(result.error || 'Failed to log expense');
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!summary || !newMember.trim()) return;
+
+    setError('');
+    const result = await GroupService.addMember(summary.group.id, newMember);
+
+    if (result.success) {
+      setNewMember('');
+      fetchSummary();
+    } else {
+      setError(result.error || 'Failed to add member');
+    }
+  };
+
+  const toggleParticipant = (profileId: string) => {
+    setParticipants(prev =>
+      prev.includes(profileId) ? prev.filter(id => id !== profileId) : [...prev, profileId]
+    );
+  };
+
+  const formatDate = (timestamp: string) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center flex-shrink-0">
+              <Users className="w-5 h-5 text-ethblue" />
+            </div>
+            <h2 className="text-xl font-bold text-white truncate">{initialGroup.name}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading || !summary ? (
+            <div className="py-12 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 text-ethblue animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Balances */}
+              <div className="space-y-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Balances</h3>
+                <div className="bg-darkbg border border-white/5 rounded-2xl divide-y divide-white/5">
+                  {summary.balances.map((balance) => (
+                    <div key={balance.profile_id} className="flex items-center justify-between p-3">
+                      <span className="text-white text-sm">{memberName(balance.profile_id)}</span>
+                      <span className={`text-sm font-bold ${
+                        balance.net > 0 ? 'text-green-400' : balance.net < 0 ? 'text-red-400' : 'text-slate-500'
+                      }`}>
+                        {balance.net > 0 ? '+' : balance.net < 0 ? '-' : ''}₱{Math.abs(balance.net).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Settlement Suggestions */}
+              <div className="space-y-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Settle Up</h3>
+                {summary.settled ? (
+                  <div className="flex items-center gap-2 text-green-400 text-sm">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Everyone is settled
+                  </div>
+                ) : (
+                  summary.suggestions.map((suggestion) => {
+                    const key = suggestionKey(suggestion);
+                    const isMine = suggestion.from_profile_id === currentUser.id;
+
+                    return (
+                      <div key={key} className="bg-darkbg border border-white/5 rounded-xl p-3 flex items-center gap-3">
+                        <div className="flex-1 min-w-0 flex items-center gap-2 text-sm text-white">
+                          <span className="truncate">{memberName(suggestion.from_profile_id)}</span>
+                          <ArrowRight className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                          <span className="truncate">{memberName(suggestion.to_profile_id)}</span>
+                        </div>
+                        <span className="text-sm font-bold text-white">₱{suggestion.amount.toFixed(2)}</span>
+                        {isMine && (
+                          <button
+                            onClick={() => handlePay(suggestion)}
+                            disabled={payingKey !== null}
+                            className="bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white text-xs font-bold px-3 py-1.5 rounded-lg transition-colors flex items-center gap-1"
+                          >
+                            {payingKey === key && <Loader2 className="w-3 h-3 animate-spin" />}
+                            Pay
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+
+              {/* Add Expense */}
+              {showExpenseForm ? (
+                <div className="bg-darkbg border border-white/5 rounded-2xl p-4 space-y-3">
+                  <div className="relative">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-lg font-bold text-slate-500">₱</span>
+                    <input
+                      type="number"
+                      value={expenseAmount}
+                      onChange={(e) => setExpenseAmount(e.target.value)}
+                      placeholder="0.00"
+                      step="0.01"
+                      min="0"
+                      className="w-full bg-black/30 border border-white/10 rounded-xl pl-10 pr-4 py-3 text-lg font-bold text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={expenseDescription}
+                    onChange={(e) => setExpenseDescription(e.target.value)}
+                    placeholder="What was it for?"
+                    className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                  />
+                  <div>
+                    <p className="text-xs text-slate-500 mb-2">You paid, split evenly with:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {summary.group.members.map((member) => (
+                        <button
+                          key={member.profile_id}
+                          onClick={() => toggleParticipant(member.profile_id)}
+                          className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${
+                            participants.includes(member.profile_id)
+                              ? 'bg-ethblue text-white'
+                              : 'bg-white/5 text-slate-400'
+                          }`}
+                        >
+                          {memberName(member.profile_id)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setShowExpenseForm(false)}
+                      className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white text-sm font-bold py-2 rounded-xl transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleAddExpense}
+                      disabled={saving}
+                      className="flex-1 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white text-sm font-bold py-2 rounded-xl transition-colors flex items-center justify-center gap-1"
+                    >
+                      {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Save Expense
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowExpenseForm(true)}
+                  className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add Expense
+                </button>
+              )}
+
+              {/* Add Member */}
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newMember}
+                  onChange={(e) => setNewMember(e.target.value)}
+                  placeholder="Add member by @username"
+                  className="flex-1 bg-darkbg border border-white/10 rounded-xl px-4 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+                  onKeyPress={(e) => e.key === 'Enter' && handleAddMember()}
+                />
+                <button
+                  onClick={handleAddMember}
+                  disabled={!newMember.trim()}
+                  className="w-10 h-10 bg-ethblue/20 hover:bg-ethblue/30 disabled:opacity-50 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <UserPlus className="w-5 h-5 text-ethblue" />
+                </button>
+              </div>
+
+              {/* History */}
+              <div className="space-y-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">History</h3>
+                {summary.expenses.length === 0 && summary.settlements.length === 0 ? (
+                  <p className="text-slate-500 text-sm">No expenses yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {summary.settlements.map((settlement) => (
+                      <div key={settlement.id} className="bg-darkbg border border-white/5 rounded-xl p-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-white">
+                            {memberName(settlement.from_profile_id)} paid {memberName(settlement.to_profile_id)}
+                          </span>
+                          <span className="text-sm font-bold text-green-400">₱{settlement.amount.toFixed(2)}</span>
+                        </div>
+                        <p className="text-slate-600 text-[10px] font-mono mt-1 truncate">
+                          {formatDate(settlement.created_at)} · Tx {settlement.transaction_id}
+                        </p>
+                      </div>
+                    ))}
+                    {summary.expenses.map((expense) => (
+                      <div key={expense.id} className="bg-darkbg border border-white/5 rounded-xl p-3 flex items-center gap-3">
+                        <Receipt className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-white truncate">{expense.description}</p>
+                          <p className="text-xs text-slate-500">
+                            {memberName(expense.paid_by)} paid · {formatDate(expense.created_at)}
+                          </p>
+                        </div>
+                        <span className="text-sm font-bold text-white">₱{expense.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GroupDetailModal;
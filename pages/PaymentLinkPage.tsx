@@ -0,0 +1,27 @@
+import React from 'react';
+import { Navigate, useParams, useSearchParams } from 'react-router-dom';
+import { SendPrefill } from '../src/context/types';
+
+/**
+ * Landing route for a payment link (#/pay/:recipient?amount=&note=)
+ * Hands the values to the dashboard, which opens SendFundsModal with them
+ */
+const PaymentLinkPage: React.FC = () => {
+  const { recipient } = useParams<{ recipient: string }>();
+  const [searchParams] = useSearchParams();
+
+  if (!recipient) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const amount = parseFloat(searchParams.get('amount') || '');
+  const sendPrefill: SendPrefill = {
+    recipient,
+    amount: !isNaN(amount) && amount > 0 ? amount : undefined,
+    description: searchParams.get('note') || undefined,
+  };
+
+  return <Navigate to="/dashboard" replace state={{ sendPrefill }} />;
+};
+
+export default PaymentLinkPage;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { HandCoins, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useAuth } from '../src/context/AuthContext';
+import { PaymentRequestService } from '../src/lib/paymentRequestService';
+import { PaymentRequest } from '../src/context/types';
+
+/**
+ * Landing page for a shared request link (#/request/:requestId)
+ */
+const PaymentRequestPage: React.FC = () => {
+  const { requestId } = useParams<{ requestId: string }>();
+  const navigate = useNavigate();
+  const { profile, refreshProfile } = useAuth();
+  const [request, setRequest] = useState<PaymentRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+  const [paid, setPaid] = useState(false);
+  const [error, setError] = useState('');
+  // One key for this page visit so a double tap cannot pay twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    setLoading(true);
+    PaymentRequestService.getRequestById(requestId)
+      .then(setRequest)
+      .finally(() => setLoading(false));
+  }, [requestId]);
+
+  const handlePay = async () => {
+    if (!request || !profile) return;
+
+    if (request.amount > profile.balance) {
+      setError(`Insufficient balance. Available: ₱${profile.balance.toFixed(2)}`);
+      return;
+    }
+
+    setPaying(true);
+    setError('');
+
+    const result = await PaymentRequestService.approveRequest(request.id, idempotencyKey);
+
+    if (result.success) {
+      setPaid(true);
+      await refreshProfile();
+    } else {
+      setError(result.error || 'Payment failed');
+    }
+
+    setPaying(false);
+  };
+
+  const isOwnRequest = !!request && request.requester_id === profile?.id;
+  const canPay = !!request && request.status === 'pending' && !isOwnRequest
+    && (request.payer_id === null || request.payer_id === profile?.id);
+
+  return (
+    <div className="min-h-screen bg-darkbg flex items-center justify-center p-4 font-sans text-slate-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+            <HandCoins className="w-5 h-5 text-ethblue" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Payment Request</h2>
+        </div>
+
+        {loading ? (
+          <div className="py-12 flex flex-col items-center justify-center space-y-4">
+            <Loader2 className="w-12 h-12 text-ethblue animate-spin" />
+            <p className="text-slate-500 text-sm">Loading request...</p>
+          </div>
+        ) : !request ? (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center space-y-2">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto" />
+            <p className="text-red-400 text-sm">This payment request could not be found.</p>
+          </div>
+        ) : paid ? (
+          <div className="py-8 flex flex-col items-center justify-center space-y-4">
+            <div className="w-20 h-20 bg-green-500/20 rounded-full flex items-center justify-center animate-in zoom-in duration-300">
+              <CheckCircle2 className="w-12 h-12 text-green-500" />
+            </div>
+            <p className="text-slate-400">
+              ₱{request.amount.toFixed(2)} sent to {request.requester?.full_name}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-darkbg border border-white/5 rounded-2xl p-6 space-y-4 text-center">
+              <img
+                src={`https://ui-avatars.com/api/?name=${encodeURIComponent(request.requester?.full_name || 'U')}&background=3C3CFF&color=fff&rounded=true`}
+                alt={request.requester?.full_name}
+                className="w-16 h-16 rounded-full border-2 border-ethblue mx-auto"
+              />
+              <div>
+                <h3 className="text-lg font-bold text-white">{request.requester?.full_name || 'Unknown User'}</h3>
+                {request.requester?.username && (
+                  <p className="text-sm text-slate-400">@{request.requester.username}</p>
+                )}
+              </div>
+              <p className="text-4xl font-black text-white">₱{request.amount.toFixed(2)}</p>
+              {request.note && <p className="text-slate-400 text-sm">{request.note}</p>}
+              <p className="text-xs text-slate-600 uppercase tracking-widest font-bold">
+                {request.status === 'pending'
+                  ? `Expires ${new Date(request.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                  : request.status}
+              </p>
+            </div>
+
+            {profile && canPay && (
+              <p className="text-xs text-slate-500 text-center">
+                Available: ₱{profile.balance.toFixed(2)}
+              </p>
+            )}
+
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {canPay && (
+              <button
+                onClick={handlePay}
+                disabled={paying}
+                className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                {paying && <Loader2 className="w-5 h-5 animate-spin" />}
+                Pay ₱{request.amount.toFixed(2)}
+              </button>
+            )}
+          </>
+        )}
+
+        <button
+          onClick={() => navigate('/dashboard')}
+          className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors"
+        >
+          Back to Wallet
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentRequestPage;
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandCoins, Loader2, Check, X, Clock } from 'lucide-react';
+import { PaymentRequestService } from '../src/lib/paymentRequestService';
+import { PaymentRequest, Profile } from '../src/context/types';
+
+interface PaymentRequestsPanelProps {
+  currentUser: Profile;
+  onNewRequest: () => void;
+  onPaid: () => void;
+  refreshKey?: number; // Bump to force a reload after creating a request
+}
+
+const PaymentRequestsPanel: React.FC<PaymentRequestsPanelProps> = ({
+  currentUser,
+  onNewRequest,
+  onPaid,
+  refreshKey
+}) => {
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // Reuse the same idempotency key if paying a request is retried
+  const paymentKeys = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    fetchRequests();
+  }, [currentUser.id, refreshKey]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const data = await PaymentRequestService.getIncomingRequests(currentUser.id);
+      setRequests(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (request: PaymentRequest) => {
+    if (request.amount > currentUser.balance) {
+      setError(`Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
+      return;
+    }
+
+    if (!confirm(`Pay ₱${request.amount.toFixed(2)} to ${request.requester?.full_name || 'this user'}?`)) {
+      return;
+    }
+
+    setError('');
+    setBusyId(request.id);
+
+    let key = paymentKeys.current.get(request.id);
+    if (!key) {
+      key = crypto.randomUUID();
+      paymentKeys.current.set(request.id, key);
+    }
+
+    const result = await PaymentRequestService.approveRequest(request.id, key);
+
+    if (result.success) {
+      paymentKeys.current.delete(request.id);
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      onPaid();
+    } else {
+      setError(result.error || 'Payment failed');
+      if (result.code === 'REQUEST_EXPIRED' || result.code === 'REQUEST_CLOSED') {
+        setRequests(prev => prev.filter(r => r.id !== request.id));
+      }
+    }
+
+    setBusyId(null);
+  };
+
+  const handleDecline = async (request: PaymentRequest) => {
+    setError('');
+    setBusyId(request.id);
+
+    const result = await PaymentRequestService.declineRequest(request.id);
+
+    if (result.success) {
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } else {
+      setError(result.error || 'Failed to decline request');
+    }
+
+    setBusyId(null);
+  };
+
+  const formatExpiry = (expiresAt: string) => {
+    const hoursLeft = (new Date(expiresAt).getTime() - Date.now()) / (1000 * 60 * 60);
+    if (hoursLeft < 24) {
+      return `${Math.max(1, Math.floor(hoursLeft))}h left`;
+    }
+    return `${Math.floor(hoursLeft / 24)}d left`;
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-white tracking-tight">Requests</h3>
+        <button
+          onClick={onNewRequest}
+          className="text-xs font-bold text-ethblue uppercase tracking-widest hover:text-white transition-colors"
+        >
+          New Request
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 text-ethblue animate-spin" />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 flex items-center gap-4">
+          <div className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center">
+            <HandCoins className="w-5 h-5 text-slate-600" />
+          </div>
+          <p className="text-slate-500 text-sm">No pending requests</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {requests.map((request) => (
+            <div
+              key={request.id}
+              className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <h4 className="text-white font-bold text-sm truncate">
+                    {request.requester?.full_name || 'Unknown User'}
+                  </h4>
+                  {request.requester?.username && (
+                    <p className="text-slate-500 text-xs mt-0.5">@{request.requester.username}</p>
+                  )}
+                  {request.note && (
+                    <p className="text-slate-400 text-xs mt-1 truncate">{request.note}</p>
+                  )}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-bold text-white">₱{request.amount.toFixed(2)}</p>
+                  <p className="text-slate-600 text-xs mt-0.5 flex items-center justify-end gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatExpiry(request.expires_at)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleDecline(request)}
+                  disabled={busyId === request.id}
+                  className="flex-1 flex items-center justify-center gap-1.5 bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-50 text-white text-sm font-bold py-2 rounded-xl transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  Decline
+                </button>
+                <button
+                  onClick={() => handleApprove(request)}
+                  disabled={busyId === request.id}
+                  className="flex-1 flex items-center justify-center gap-1.5 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white text-sm font-bold py-2 rounded-xl transition-colors"
+                >
+                  {busyId === request.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Check className="w-4 h-4" />
+                  )}
+                  Pay
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PaymentRequestsPanel;
@@ -1,13 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Camera, AlertCircle, Settings as SettingsIcon } from 'lucide-react';
+import { X, Camera, AlertCircle, Settings as SettingsIcon, SwitchCamera, Flashlight, FlashlightOff, ImageUp } from 'lucide-react';
+import { Html5Qrcode, Html5QrcodeSupportedFormats, CameraDevice } from 'html5-qrcode';
 import { TransactionService } from '../src/lib/transactionService';
+import { ScannedPayment } from '../src/context/types';
 
 interface QRScannerModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onScanSuccess: (userId: string, username?: string) => void;
+  onScanSuccess: (payment: ScannedPayment) => void;
 }
 
+const SCANNER_ELEMENT_ID = 'qr-scanner-region';
+const FILE_SCANNER_ELEMENT_ID = 'qr-file-scanner-region';
+
 const QRScannerModal: React.FC<QRScannerModalProps> = ({ 
   isOpen, 
   onClose, 
@@ -17,11 +22,22 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [permissionDenied, setPermissionDenied] = useState(false);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const scanIntervalRef = useRef<number | null>(null);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraIndex, setCameraIndex] = useState<number | null>(null);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [decodingFile, setDecodingFile] = useState(false);
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Last rejected payload, so a bad code in view is reported once, not every frame
+  const lastRejectedRef = useRef<string | null>(null);
+  // The camera keeps decoding while a code is being verified; ignore those frames
+  const verifyingRef = useRef(false);
+  const [verifying, setVerifying] = useState(false);
 
   useEffect(() => {
+    let startTimer: ReturnType<typeof setTimeout> | undefined;
+
     if (isOpen) {
       // Reset states
       setError('');
@@ -29,7 +45,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
       setHasPermission(null);
       
       // Small delay to allow modal to render
-      setTimeout(() => {
+      startTimer = setTimeout(() => {
         startCamera();
       }, 300);
     } else {
@@ -37,11 +53,13 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     }
 
     return () => {
+      // Closing within the delay must not start the camera afterwards
+      clearTimeout(startTimer);
       stopCamera();
     };
   }, [isOpen]);
 
-  const startCamera = async () => {
+  const startCamera = async (cameraId?: string) => {
     try {
       // Check if running on HTTPS (required for camera access)
       const isSecureContext = window.isSecureContext || window.location.protocol === 'https:';
@@ -65,49 +83,52 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
         return;
       }
 
-      // Request camera permission with optimal constraints for mobile
-      const constraints = {
-        video: { 
-          facingMode: { ideal: 'environment' }, // Prefer back camera
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        }
-      };
+      // Listing cameras also triggers the permission prompt
+      if (cameras.length === 0) {
+        setCameras(await Html5Qrcode.getCameras());
+      }
 
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      
-      streamRef.current = stream;
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        
-        // Wait for video to be ready
-        videoRef.current.onloadedmetadata = () => {
-          videoRef.current?.play().catch(err => {
-            console.error('Error playing video:', err);
-            setError('Failed to start camera preview');
-          });
-        };
+      await stopCamera();
+
+      const scanner = new Html5Qrcode(SCANNER_ELEMENT_ID, {
+        verbose: false,
+        formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE],
+      });
+      scannerRef.current = scanner;
+
+      // Prefer the back camera until the user picks one
+      await scanner.start(
+        cameraId || { facingMode: 'environment' },
+        { fps: 10, aspectRatio: 1 },
+        handleDecoded,
+        undefined
+      );
+
+      try {
+        setTorchSupported(scanner.getRunningTrackCameraCapabilities().torchFeature().isSupported());
+      } catch {
+        setTorchSupported(false);
       }
-      
+      setTorchOn(false);
+
       setHasPermission(true);
       setIsScanning(true);
       setPermissionDenied(false);
-      
-      // Start scanning for QR codes
-      startQRScanning();
     } catch (err: any) {
       console.error('Error accessing camera:', err);
-      
+
+      // html5-qrcode sometimes rejects with a string rather than an Error
+      const name = err?.name || String(err);
+
       // Handle specific error types
-      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+      if (name.includes('NotAllowedError') || name.includes('PermissionDeniedError')) {
         setPermissionDenied(true);
         setError('Camera permission was denied. Please enable camera access in your browser/device settings.');
-      } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
+      } else if (name.includes('NotFoundError') || name.includes('DevicesNotFoundError')) {
         setError('No camera found on this device.');
-      } else if (err.name === 'NotReadableError' || err.name === 'TrackStartError') {
+      } else if (name.includes('NotReadableError') || name.includes('TrackStartError')) {
         setError('Camera is already in use by another application.');
-      } else if (err.name === 'OverconstrainedError') {
+      } else if (name.includes('OverconstrainedError')) {
         setError('Camera does not support the required features.');
       } else {
         setError('Unable to access camera. Please check your browser permissions.');
@@ -117,37 +138,96 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     }
   };
 
-  const stopCamera = () => {
-    if (scanIntervalRef.current) {
-      clearInterval(scanIntervalRef.current);
-      scanIntervalRef.current = null;
-    }
-    
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
+  const stopCamera = async () => {
+    const scanner = scannerRef.current;
+    scannerRef.current = null;
+
+    if (scanner) {
+      try {
+        if (scanner.isScanning) {
+          await scanner.stop();
+        }
+        scanner.clear();
+      } catch (err) {
+        console.error('Error stopping scanner:', err);
+      }
     }
     
     setIsScanning(false);
+    setTorchOn(false);
   };
 
-  const startQRScanning = () => {
-    // Simple QR code detection simulation
-    // In a real implementation, you would use a library like jsQR
-    scanIntervalRef.current = window.setInterval(() => {
-      if (videoRef.current && isScanning) {
-        // This is a placeholder for actual QR scanning logic
-        // You would typically:
-        // 1. Create a canvas
-        // 2. Draw the video frame to canvas
-        // 3. Use jsQR to decode the image data
-        console.log('Scanning for QR code...');
+  const handleDecoded = async (qrData: string) => {
+    if (verifyingRef.current || lastRejectedRef.current === qrData) return;
+
+    verifyingRef.current = true;
+    setVerifying(true);
+
+    try {
+      const result = await TransactionService.parseQRData(qrData);
+      if (result.success && result.payment) {
+        onScanSuccess(result.payment);
+        handleClose();
+      } else {
+        lastRejectedRef.current = qrData;
+        setError(result.error || 'Invalid QR code. Please scan a valid Lapore-Finance QR code.');
       }
-    }, 500);
+    } finally {
+      verifyingRef.current = false;
+      setVerifying(false);
+    }
+  };
+
+  const handleSwitchCamera = () => {
+    if (cameras.length < 2) return;
+
+    // Until the user switches, the running camera is whichever facingMode picked
+    const runningId = scannerRef.current?.getRunningTrackSettings().deviceId;
+    const current = cameraIndex ?? cameras.findIndex(c => c.id === runningId);
+    const next = (current + 1) % cameras.length;
+    setCameraIndex(next);
+    startCamera(cameras[next].id);
+  };
+
+  const handleToggleTorch = async () => {
+    const scanner = scannerRef.current;
+    if (!scanner || !torchSupported) return;
+
+    try {
+      await scanner.getRunningTrackCameraCapabilities().torchFeature().apply(!torchOn);
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.error('Error toggling torch:', err);
+      setTorchSupported(false);
+    }
+  };
+
+  // Fallback for devices without a usable camera: decode a saved image
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setDecodingFile(true);
+
+    // A separate instance so a running camera scan is not interrupted
+    const fileScanner = new Html5Qrcode(FILE_SCANNER_ELEMENT_ID, {
+      verbose: false,
+      formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE],
+    });
+
+    try {
+      const qrData = await fileScanner.scanFile(file, false);
+      lastRejectedRef.current = null;
+      await handleDecoded(qrData);
+    } catch (err) {
+      console.error('Error decoding QR image:', err);
+      setError('No QR code found in that image. Try a clearer photo or screenshot.');
+    } finally {
+      fileScanner.clear();
+      setDecodingFile(false);
+    }
   };
 
   const handleManualInput = () => {
@@ -186,14 +266,14 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
   };
 
   // Simulated QR scan success (for testing)
-  const simulateScan = (qrData: string) => {
-    const parsed = TransactionService.parseQRData(qrData);
-    if (parsed) {
-      onScanSuccess(parsed.userId, parsed.username);
-      handleClose();
-    } else {
-      setError('Invalid QR code. Please scan a valid Lapore-Finance QR code.');
+  const simulateScan = async () => {
+    const generated = await TransactionService.generateReceiveQRData({ ttlSeconds: 60 });
+    if (!generated) {
+      setError('Could not generate a test QR code');
+      return;
     }
+    lastRejectedRef.current = null;
+    handleDecoded(generated.qrData);
   };
 
   if (!isOpen) return null;
@@ -220,13 +300,8 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
 
         {/* Scanner Area */}
         <div className="relative bg-black aspect-square">
-          <video
-            ref={videoRef}
-            className="w-full h-full object-cover"
-            playsInline
-            autoPlay
-            muted
-          />
+          <div id={SCANNER_ELEMENT_ID} className="w-full h-full" />
+          <div id={FILE_SCANNER_ELEMENT_ID} className="hidden" />
           
           {/* Scanning Overlay */}
           {isScanning && hasPermission && (
@@ -246,6 +321,30 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
             </div>
           )}
 
+          {/* Camera Controls */}
+          {isScanning && hasPermission && (cameras.length > 1 || torchSupported) && (
+            <div className="absolute bottom-4 right-4 flex gap-2">
+              {torchSupported && (
+                <button
+                  onClick={handleToggleTorch}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center backdrop-blur-sm transition-colors ${
+                    torchOn ? 'bg-ethblue text-white' : 'bg-black/60 text-slate-300 hover:bg-black/80'
+                  }`}
+                >
+                  {torchOn ? <FlashlightOff className="w-5 h-5" /> : <Flashlight className="w-5 h-5" />}
+                </button>
+              )}
+              {cameras.length > 1 && (
+                <button
+                  onClick={handleSwitchCamera}
+                  className="w-10 h-10 rounded-full bg-black/60 hover:bg-black/80 text-slate-300 flex items-center justify-center backdrop-blur-sm transition-colors"
+                >
+                  <SwitchCamera className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Loading State */}
           {hasPermission === null && !error && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/80">
@@ -301,16 +400,32 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
         <div className="p-6 space-y-4">
           {isScanning && (
             <p className="text-center text-slate-400 text-sm">
-              Position the QR code within the frame to scan
+              {verifying ? 'Verifying QR code...' : 'Position the QR code within the frame to scan'}
             </p>
           )}
 
-          {error && !hasPermission && (
+          {error && hasPermission !== false && (
             <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
               <p className="text-red-400 text-sm text-center">{error}</p>
             </div>
           )}
 
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={decodingFile}
+            className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
+          >
+            <ImageUp className="w-5 h-5" />
+            {decodingFile ? 'Reading Image...' : 'Upload QR Image'}
+          </button>
+
           <button
             onClick={handleManualInput}
             className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors"
@@ -330,12 +445,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
           {/* Dev Testing Button - Remove in production */}
           {process.env.NODE_ENV === 'development' && (
             <button
-              onClick={() => simulateScan(JSON.stringify({
-                type: 'lapore-finance-transfer',
-                userId: 'test-user-id',
-                username: 'testuser',
-                timestamp: Date.now()
-              }))}
+              onClick={simulateScan}
               className="w-full bg-green-500/20 hover:bg-green-500/30 border border-green-500/20 text-green-400 font-bold py-2 rounded-xl transition-colors text-sm"
             >
               [Dev] Simulate Scan
@@ -356,6 +466,11 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
         .animate-scan {
           animation: scan 2s linear infinite;
         }
+        #${SCANNER_ELEMENT_ID} video {
+          width: 100% !important;
+          height: 100% !important;
+          object-fit: cover;
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { ShieldCheck, Loader2, AlertCircle } from 'lucide-react';
+import { ReceiptService } from '../src/lib/receiptService';
+import { ReceiptDetails } from '../src/tabs/ReceiptModal';
+import { TransactionReceipt } from '../src/context/types';
+
+/**
+ * Public landing page for a shared receipt (#/receipt/:transactionId)
+ * Always re-fetches the transaction, so what is shown comes from the
+ * database rather than from the image or PDF the visitor was sent
+ */
+const ReceiptVerificationPage: React.FC = () => {
+  const { transactionId } = useParams<{ transactionId: string }>();
+  const [receipt, setReceipt] = useState<TransactionReceipt | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!transactionId) return;
+
+    setLoading(true);
+    ReceiptService.verifyTransaction(transactionId)
+      .then(setReceipt)
+      .finally(() => setLoading(false));
+  }, [transactionId]);
+
+  return (
+    <div className="min-h-screen bg-darkbg flex items-center justify-center p-4 font-sans text-slate-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+            <ShieldCheck className="w-5 h-5 text-ethblue" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Receipt Verification</h2>
+        </div>
+
+        {loading ? (
+          <div className="py-12 flex flex-col items-center justify-center space-y-4">
+            <Loader2 className="w-12 h-12 text-ethblue animate-spin" />
+            <p className="text-slate-500 text-sm">Checking transaction...</p>
+          </div>
+        ) : !receipt ? (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center space-y-2">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto" />
+            <p className="text-red-400 font-bold">Not verified</p>
+            <p className="text-red-400 text-sm">No transaction matches this receipt. It may have been altered.</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4 flex items-center gap-3">
+              <ShieldCheck className="w-6 h-6 text-green-400 flex-shrink-0" />
+              <p className="text-green-400 text-sm">
+                Genuine transaction. Check that the details below match the receipt you were given.
+              </p>
+            </div>
+            <ReceiptDetails receipt={receipt} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptVerificationPage;
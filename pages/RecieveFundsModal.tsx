@@ -1,7 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { X, Download, Share2, Copy, Check } from 'lucide-react';
+import { X, Download, Share2, Copy, Check, Link } from 'lucide-react';
 import { Profile } from '../src/context/types';
 import { TransactionService } from '../src/lib/transactionService';
+import { EmvcoService } from '../src/lib/emvcoService';
+import { QRCodeService } from '../src/lib/qrCodeService';
 
 interface ReceiveFundsModalProps {
   isOpen: boolean;
@@ -16,111 +18,78 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
 }) => {
   const [copied, setCopied] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [qrError, setQrError] = useState('');
+  // 'qrph' renders an EMVCo code other wallets' scanners can read
+  const [qrFormat, setQrFormat] = useState<'lapore' | 'qrph'>('lapore');
+  // Optional fixed amount and note, encoded into both the QR and the link
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
   const qrContainerRef = useRef<HTMLDivElement>(null);
 
+  // Debounced so typing an amount does not sign a new code per keystroke
   useEffect(() => {
-    if (isOpen) {
-      generateQRCode();
-    }
-  }, [isOpen, currentUser]);
+    if (!isOpen) return;
+
+    const timeout = setTimeout(generateQRCode, 400);
+    return () => clearTimeout(timeout);
+  }, [isOpen, currentUser, qrFormat, amount, note]);
+
+  const requestedAmount = () => {
+    const value = parseFloat(amount);
+    return !isNaN(value) && value > 0 ? value : undefined;
+  };
+
+  const paymentLink = TransactionService.getPaymentLink(currentUser.username, requestedAmount(), note);
 
   const generateQRCode = async () => {
-    // Generate QR code data
-    const qrData = TransactionService.generateReceiveQRData(
-      currentUser.id, 
-      currentUser.username
-    );
-
-    // Load QRCode library dynamically if not already loaded
-    if (typeof window !== 'undefined' && !(window as any).QRCode) {
-      const script = document.createElement('script');
-      script.src = 'https://cdnjs.cloudflare.com/ajax/libs/qrcodejs/1.0.0/qrcode.min.js';
-      script.async = true;
-      script.onload = () => generateQRWithLibrary(qrData);
-      document.head.appendChild(script);
+    setQrError('');
+
+    let qrData: string;
+    if (qrFormat === 'qrph') {
+      qrData = EmvcoService.encodeLaporeAccount({
+        userId: currentUser.id,
+        name: currentUser.full_name,
+        reference: currentUser.username,
+        amount: requestedAmount(),
+        memo: note.trim() || undefined,
+      });
+      setExpiresAt(null);
     } else {
-      generateQRWithLibrary(qrData);
+      // Signed server-side so scanners can detect forged or edited codes
+      const generated = await TransactionService.generateReceiveQRData({
+        amount: requestedAmount(),
+        memo: note.trim() || undefined,
+      });
+      if (!generated) {
+        setExpiresAt(null);
+        if (qrContainerRef.current) qrContainerRef.current.innerHTML = '';
+        setQrError('Could not generate your QR code. Please try again.');
+        return;
+      }
+
+      qrData = generated.qrData;
+      setExpiresAt(generated.expiresAt);
     }
+
+    renderQRCode(qrData);
   };
 
-  const generateQRWithLibrary = (qrData: string) => {
+  const renderQRCode = (qrData: string) => {
     if (!qrContainerRef.current) return;
 
     // Clear previous QR code
     qrContainerRef.current.innerHTML = '';
 
     try {
-      // Check if QRCode is available
-      const QRCodeConstructor = (window as any).QRCode;
-      
-      if (QRCodeConstructor) {
-        new QRCodeConstructor(qrContainerRef.current, {
-          text: qrData,
-          width: 256,
-          height: 256,
-          colorDark: '#000000',
-          colorLight: '#ffffff',
-          correctLevel: QRCodeConstructor.CorrectLevel.H
-        });
-      } else {
-        // Fallback: draw placeholder
-        drawPlaceholderQR();
-      }
+      qrContainerRef.current.appendChild(
+        QRCodeService.toCanvas(qrData, { size: 256, errorCorrection: 'H', logo: true })
+      );
     } catch (error) {
       console.error('Error generating QR code:', error);
-      drawPlaceholderQR();
-    }
-  };
-
-  const drawPlaceholderQR = () => {
-    if (!qrContainerRef.current) return;
-    
-    const canvas = document.createElement('canvas');
-    canvas.width = 256;
-    canvas.height = 256;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return;
-
-    // Draw white background
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillRect(0, 0, 256, 256);
-
-    // Draw simplified QR pattern
-    ctx.fillStyle = '#000000';
-    const blockSize = 8;
-    for (let i = 0; i < 32; i++) {
-      for (let j = 0; j < 32; j++) {
-        if (Math.random() > 0.5) {
-          ctx.fillRect(i * blockSize, j * blockSize, blockSize, blockSize);
-        }
-      }
+      setQrError('Could not generate your QR code. Please try again.');
     }
-
-    // Draw corner markers
-    const drawCorner = (x: number, y: number) => {
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(x, y, 48, 48);
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(x + 8, y + 8, 32, 32);
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(x + 16, y + 16, 16, 16);
-    };
-
-    drawCorner(8, 8);
-    drawCorner(200, 8);
-    drawCorner(8, 200);
-
-    // Draw logo in center
-    ctx.fillStyle = '#3C3CFF';
-    ctx.fillRect(104, 104, 48, 48);
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = 'bold 28px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('L', 128, 128);
-
-    qrContainerRef.current.appendChild(canvas);
   };
 
   const handleCopyAddress = async () => {
@@ -146,13 +115,27 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
     }
   };
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(paymentLink);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
   const handleShare = async () => {
+    const requested = requestedAmount();
+
     if (navigator.share) {
       try {
         await navigator.share({
           title: 'My Lapore-Finance Wallet',
-          text: `Send me funds on Lapore-Finance! Username: @${currentUser.username}`,
-          url: window.location.href,
+          text: requested
+            ? `Send me ₱${requested.toFixed(2)} on Lapore-Finance!${note.trim() ? ` (${note.trim()})` : ''}`
+            : `Send me funds on Lapore-Finance! Username: @${currentUser.username}`,
+          url: paymentLink,
         });
       } catch (err) {
         console.error('Error sharing:', err);
@@ -163,11 +146,17 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
     }
   };
 
+  const handleClose = () => {
+    setAmount('');
+    setNote('');
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
         
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-white/5">
@@ -178,7 +167,7 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
             <h2 className="text-xl font-bold text-white">Receive Funds</h2>
           </div>
           <button 
-            onClick={onClose}
+            onClick={handleClose}
             className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
           >
             <X className="w-5 h-5 text-slate-400" />
@@ -199,6 +188,45 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
             <p className="text-sm text-slate-400">@{currentUser.username}</p>
           </div>
 
+          {/* Requested Amount */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm font-bold text-slate-500">₱</span>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Any amount"
+                step="0.01"
+                min="0"
+                className="w-full bg-darkbg border border-white/10 rounded-xl pl-7 pr-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+              />
+            </div>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              maxLength={140}
+              className="w-full bg-darkbg border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+            />
+          </div>
+
+          {/* QR Format */}
+          <div className="grid grid-cols-2 gap-1 bg-darkbg border border-white/5 rounded-xl p-1">
+            {(['lapore', 'qrph'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => setQrFormat(format)}
+                className={`py-2 rounded-lg text-sm font-bold transition-colors ${
+                  qrFormat === format ? 'bg-ethblue text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {format === 'lapore' ? 'Lapore-Finance' : 'QR Ph'}
+              </button>
+            ))}
+          </div>
+
           {/* QR Code Container */}
           <div className="bg-white rounded-2xl p-6 flex items-center justify-center">
             <div 
@@ -208,9 +236,57 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
             />
           </div>
 
-          <p className="text-center text-slate-400 text-sm">
-            Share this QR code with anyone who wants to send you funds
-          </p>
+          {qrError ? (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center justify-between gap-3">
+              <p className="text-red-400 text-sm">{qrError}</p>
+              <button
+                onClick={generateQRCode}
+                className="text-xs font-bold text-white bg-white/5 hover:bg-white/10 px-3 py-2 rounded-lg transition-colors"
+              >
+                Retry
+              </button>
+            </div>
+          ) : (
+            <p className="text-center text-slate-400 text-sm">
+              {qrFormat === 'qrph'
+                ? 'Standard QR Ph code, readable by any QR Ph scanner'
+                : 'Share this QR code with anyone who wants to send you funds'}
+              {expiresAt && (
+                <span className="block text-xs text-slate-500 mt-1">
+                  Valid until {new Date(expiresAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                    hour12: true,
+                  })}
+                </span>
+              )}
+            </p>
+          )}
+
+          {/* Payment Link */}
+          <div className="space-y-2">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">
+              Payment Link
+            </label>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white text-sm font-mono truncate">
+                {paymentLink}
+              </div>
+              <button
+                onClick={handleCopyLink}
+                className="w-12 h-12 bg-ethblue/20 hover:bg-ethblue/30 rounded-xl flex items-center justify-center transition-colors"
+                title="Copy payment link"
+              >
+                {linkCopied ? (
+                  <Check className="w-5 h-5 text-green-400" />
+                ) : (
+                  <Link className="w-5 h-5 text-ethblue" />
+                )}
+              </button>
+            </div>
+          </div>
 
           {/* Wallet Address */}
           <div className="space-y-2">
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { X, HandCoins, Loader2, CheckCircle2, User, Copy, Check, Share2 } from 'lucide-react';
+import { PaymentRequestService } from '../src/lib/paymentRequestService';
+import { PaymentRequest, Profile } from '../src/context/types';
+
+interface RequestFundsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: Profile;
+  onSuccess?: () => void;
+}
+
+type RequestStep = 'input' | 'processing' | 'success';
+
+const RequestFundsModal: React.FC<RequestFundsModalProps> = ({
+  isOpen,
+  onClose,
+  currentUser,
+  onSuccess
+}) => {
+  const [step, setStep] = useState<RequestStep>('input');
+  const [payer, setPayer] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [createdRequest, setCreatedRequest] = useState<PaymentRequest | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleCreate = async () => {
+    setError('');
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    setStep('processing');
+
+    const result = await PaymentRequestService.createRequest({
+      requester_id: currentUser.id,
+      payer_identifier: payer.trim() || undefined,
+      amount: amountNum,
+      currency: 'PHP',
+      note: note.trim() || undefined,
+    });
+
+    if (result.success && result.request) {
+      setCreatedRequest(result.request);
+      setStep('success');
+      onSuccess?.();
+    } else {
+      setStep('input');
+      setError(result.error || 'Failed to create request');
+    }
+  };
+
+  const requestLink = createdRequest ? PaymentRequestService.getRequestLink(createdRequest.id) : '';
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(requestLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleShareLink = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: 'Lapore-Finance Payment Request',
+          text: `@${currentUser.username} is requesting ₱${createdRequest?.amount.toFixed(2)}`,
+          url: requestLink,
+        });
+      } catch (err) {
+        console.error('Error sharing:', err);
+      }
+    } else {
+      handleCopyLink();
+    }
+  };
+
+  const handleClose = () => {
+    setStep('input');
+    setPayer('');
+    setAmount('');
+    setNote('');
+    setCreatedRequest(null);
+    setError('');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+              <HandCoins className="w-5 h-5 text-ethblue" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Request Funds</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+
+          {/* Input Step */}
+          {step === 'input' && (
+            <>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-bold text-slate-400 mb-2">
+                    Request From (Optional)
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={payer}
+                      onChange={(e) => setPayer(e.target.value)}
+                      placeholder="@username or wallet address"
+                      className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+                    />
+                    <User className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-600" />
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    Leave empty to create a link anyone can pay
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Amount
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-2xl font-bold text-slate-500">₱</span>
+                    <input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0.00"
+                      step="0.01"
+                      min="0"
+                      className="w-full bg-black/30 border border-white/10 rounded-xl pl-10 pr-4 py-4 text-2xl font-bold text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Note (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What's this for?"
+                    className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                  <p className="text-red-400 text-sm">{error}</p>
+                </div>
+              )}
+
+              <button
+                onClick={handleCreate}
+                disabled={!amount || parseFloat(amount) <= 0}
+                className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
+              >
+                Request ₱{parseFloat(amount || '0').toFixed(2)}
+              </button>
+            </>
+          )}
+
+          {/* Processing Step */}
+          {step === 'processing' && (
+            <div className="py-12 flex flex-col items-center justify-center space-y-4">
+              <Loader2 className="w-16 h-16 text-ethblue animate-spin" />
+              <p className="text-white font-bold">Creating request...</p>
+            </div>
+          )}
+
+          {/* Success Step */}
+          {step === 'success' && createdRequest && (
+            <div className="space-y-6">
+              <div className="py-6 flex flex-col items-center justify-center space-y-4">
+                <div className="w-20 h-20 bg-green-500/20 rounded-full flex items-center justify-center animate-in zoom-in duration-300">
+                  <CheckCircle2 className="w-12 h-12 text-green-500" />
+                </div>
+                <div className="text-center space-y-2">
+                  <h3 className="text-2xl font-bold text-white">Request Created</h3>
+                  <p className="text-slate-400">
+                    {createdRequest.payer
+                      ? `₱${createdRequest.amount.toFixed(2)} requested from ${createdRequest.payer.full_name}`
+                      : `Share this link to collect ₱${createdRequest.amount.toFixed(2)}`}
+                  </p>
+                  <p className="text-slate-600 text-xs">
+                    Expires {new Date(createdRequest.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+              </div>
+
+              {!createdRequest.payer_id && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white text-sm font-mono truncate">
+                      {requestLink}
+                    </div>
+                    <button
+                      onClick={handleCopyLink}
+                      className="w-12 h-12 bg-ethblue/20 hover:bg-ethblue/30 rounded-xl flex items-center justify-center transition-colors"
+                      title="Copy link"
+                    >
+                      {copied ? (
+                        <Check className="w-5 h-5 text-green-400" />
+                      ) : (
+                        <Copy className="w-5 h-5 text-ethblue" />
+                      )}
+                    </button>
+                  </div>
+                  <button
+                    onClick={handleShareLink}
+                    className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
+                  >
+                    <Share2 className="w-5 h-5" />
+                    Share Link
+                  </button>
+                </div>
+              )}
+
+              <button
+                onClick={handleClose}
+                className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestFundsModal;
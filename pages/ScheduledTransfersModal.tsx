@@ -0,0 +1,468 @@
+import React, { useEffect, useState } from 'react';
+import { X, CalendarClock, Loader2, Pause, Play, Pencil, Trash2, History, Plus, User, ChevronLeft } from 'lucide-react';
+import { ScheduledTransferService } from '../src/lib/scheduledTransferService';
+import { TransactionService } from '../src/lib/transactionService';
+import { Profile, ScheduledTransfer, ScheduledTransferRun, TransferFrequency } from '../src/context/types';
+
+interface ScheduledTransfersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: Profile;
+}
+
+type View = 'list' | 'form' | 'history';
+
+const FREQUENCY_LABELS: Record<TransferFrequency, string> = {
+  once: 'One-off',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const ScheduledTransfersModal: React.FC<ScheduledTransfersModalProps> = ({
+  isOpen,
+  onClose,
+  currentUser
+}) => {
+  const [view, setView] = useState<View>('list');
+  const [schedules, setSchedules] = useState<ScheduledTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Form state (create or edit)
+  const [editing, setEditing] = useState<ScheduledTransfer | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [frequency, setFrequency] = useState<TransferFrequency>('monthly');
+  const [startAt, setStartAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // History state
+  const [historyFor, setHistoryFor] = useState<ScheduledTransfer | null>(null);
+  const [runs, setRuns] = useState<ScheduledTransferRun[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSchedules();
+    }
+  }, [isOpen, currentUser.id]);
+
+  const fetchSchedules = async () => {
+    setLoading(true);
+    try {
+      const data = await ScheduledTransferService.getSchedules(currentUser.id);
+      setSchedules(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const openCreate = () => {
+    setEditing(null);
+    setRecipient('');
+    setAmount('');
+    setDescription('');
+    setFrequency('monthly');
+    setStartAt(toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000).toISOString()));
+    setError('');
+    setView('form');
+  };
+
+  const openEdit = (schedule: ScheduledTransfer) => {
+    setEditing(schedule);
+    setRecipient(schedule.receiver?.username ? `@${schedule.receiver.username}` : schedule.receiver_id);
+    setAmount(schedule.amount.toString());
+    setDescription(schedule.description || '');
+    setFrequency(schedule.frequency);
+    setStartAt(toLocalInputValue(schedule.next_run_at));
+    setError('');
+    setView('form');
+  };
+
+  const openHistory = async (schedule: ScheduledTransfer) => {
+    setHistoryFor(schedule);
+    setRuns([]);
+    setView('history');
+    setRuns(await ScheduledTransferService.getRuns(schedule.id));
+  };
+
+  const handleSave = async () => {
+    setError('');
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (!startAt) {
+      setError('Please choose when the transfer should run');
+      return;
+    }
+
+    const startIso = new Date(startAt).toISOString();
+    setSaving(true);
+
+    if (editing) {
+      const startChanged = startIso !== new Date(editing.next_run_at).toISOString();
+      const result = await ScheduledTransferService.updateSchedule(editing.id, {
+        amount: amountNum,
+        description,
+        frequency,
+        start_at: startChanged || frequency !== editing.frequency ? startIso : undefined,
+      });
+
+      if (!result.success) {
+        setError(result.error || 'Failed to update schedule');
+        setSaving(false);
+        return;
+      }
+    } else {
+      const receiver = await TransactionService.getUserByIdentifier(recipient.trim());
+
+      if (!receiver) {
+        setError('Recipient not found. Please check the wallet address or username.');
+        setSaving(false);
+        return;
+      }
+
+      const result = await ScheduledTransferService.createSchedule({
+        sender_id: currentUser.id,
+        receiver_id: receiver.id,
+        amount: amountNum,
+        currency: 'PHP',
+        description,
+        frequency,
+        start_at: startIso,
+      });
+
+      if (!result.success) {
+        setError(result.error || 'Failed to create schedule');
+        setSaving(false);
+        return;
+      }
+    }
+
+    setSaving(false);
+    setView('list');
+    fetchSchedules();
+  };
+
+  const handleToggle = async (schedule: ScheduledTransfer) => {
+    const result = schedule.status === 'paused'
+      ? await ScheduledTransferService.resumeSchedule(schedule.id)
+      : await ScheduledTransferService.pauseSchedule(schedule.id);
+
+    if (result.success) {
+      fetchSchedules();
+    } else {
+      setError(result.error || 'Failed to update schedule');
+    }
+  };
+
+  const handleCancel = async (schedule: ScheduledTransfer) => {
+    if (!confirm('Cancel this scheduled transfer?')) return;
+
+    const result = await ScheduledTransferService.cancelSchedule(schedule.id);
+    if (result.success) {
+      fetchSchedules();
+    } else {
+      setError(result.error || 'Failed to cancel schedule');
+    }
+  };
+
+  const handleClose = () => {
+    setView('list');
+    setEditing(null);
+    setHistoryFor(null);
+    setError('');
+    onClose();
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
+  const statusStyles: Record<ScheduledTransfer['status'], string> = {
+    active: 'bg-green-500/10 text-green-400',
+    paused: 'bg-yellow-500/10 text-yellow-400',
+    completed: 'bg-white/5 text-slate-400',
+    cancelled: 'bg-white/5 text-slate-500',
+    failed: 'bg-red-500/10 text-red-400',
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            {view !== 'list' ? (
+              <button
+                onClick={() => { setView('list'); setError(''); }}
+                className="w-10 h-10 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+              >
+                <ChevronLeft className="w-5 h-5 text-slate-400" />
+              </button>
+            ) : (
+              <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+                <CalendarClock className="w-5 h-5 text-ethblue" />
+              </div>
+            )}
+            <h2 className="text-xl font-bold text-white">
+              {view === 'form' ? (editing ? 'Edit Schedule' : 'New Schedule')
+                : view === 'history' ? 'Run History'
+                : 'Scheduled Transfers'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* List View */}
+          {view === 'list' && (
+            <>
+              {loading ? (
+                <div className="py-12 flex items-center justify-center">
+                  <Loader2 className="w-8 h-8 text-ethblue animate-spin" />
+                </div>
+              ) : schedules.length === 0 ? (
+                <div className="py-8 text-center space-y-2 opacity-60">
+                  <CalendarClock className="w-10 h-10 text-slate-600 mx-auto" />
+                  <p className="text-slate-500 text-sm">No scheduled transfers yet</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {schedules.map((schedule) => {
+                    const isOpen = schedule.status === 'active' || schedule.status === 'paused';
+
+                    return (
+                      <div key={schedule.id} className="bg-darkbg border border-white/5 rounded-2xl p-4 space-y-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <h4 className="text-white font-bold text-sm truncate">
+                              {schedule.receiver?.full_name || 'Unknown User'}
+                            </h4>
+                            <p className="text-slate-500 text-xs mt-0.5">
+                              {FREQUENCY_LABELS[schedule.frequency]}
+                              {isOpen && ` · next ${formatDate(schedule.next_run_at)}`}
+                            </p>
+                            {schedule.description && (
+                              <p className="text-slate-600 text-xs mt-1 truncate">{schedule.description}</p>
+                            )}
+                          </div>
+                          <div className="text-right flex-shrink-0">
+                            <p className="font-bold text-white text-sm">₱{schedule.amount.toFixed(2)}</p>
+                            <span className={`inline-block text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full mt-0.5 ${statusStyles[schedule.status]}`}>
+                              {schedule.status}
+                            </span>
+                          </div>
+                        </div>
+
+                        <div className="flex gap-2">
+                          {isOpen && (
+                            <>
+                              <ScheduleAction
+                                icon={schedule.status === 'paused' ? <Play /> : <Pause />}
+                                label={schedule.status === 'paused' ? 'Resume' : 'Pause'}
+                                onClick={() => handleToggle(schedule)}
+                              />
+                              <ScheduleAction icon={<Pencil />} label="Edit" onClick={() => openEdit(schedule)} />
+                              <ScheduleAction icon={<Trash2 />} label="Cancel" onClick={() => handleCancel(schedule)} />
+                            </>
+                          )}
+                          <ScheduleAction icon={<History />} label="History" onClick={() => openHistory(schedule)} />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <button
+                onClick={openCreate}
+                className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                New Scheduled Transfer
+              </button>
+            </>
+          )}
+
+          {/* Form View */}
+          {view === 'form' && (
+            <>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Recipient
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={recipient}
+                      onChange={(e) => setRecipient(e.target.value)}
+                      disabled={!!editing}
+                      placeholder="@username or wallet address"
+                      className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors disabled:opacity-50"
+                    />
+                    <User className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-600" />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Amount
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl font-bold text-slate-500">₱</span>
+                    <input
+                      type="number"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0.00"
+                      step="0.01"
+                      min="0"
+                      className="w-full bg-darkbg border border-white/10 rounded-xl pl-10 pr-4 py-3 text-xl font-bold text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Repeat
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(FREQUENCY_LABELS) as TransferFrequency[]).map((value) => (
+                      <button
+                        key={value}
+                        onClick={() => setFrequency(value)}
+                        className={`py-2 rounded-xl font-bold text-sm transition-colors ${
+                          frequency === value
+                            ? 'bg-ethblue text-white'
+                            : 'bg-white/5 text-slate-400 hover:bg-white/10'
+                        }`}
+                      >
+                        {FREQUENCY_LABELS[value]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    {frequency === 'once' ? 'Send On' : editing ? 'Next Run' : 'First Run'}
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={startAt}
+                    onChange={(e) => setStartAt(e.target.value)}
+                    className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Note (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Rent, allowance..."
+                    className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={handleSave}
+                disabled={saving || !amount || (!editing && !recipient.trim())}
+                className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                {saving && <Loader2 className="w-5 h-5 animate-spin" />}
+                {editing ? 'Save Changes' : 'Create Schedule'}
+              </button>
+            </>
+          )}
+
+          {/* History View */}
+          {view === 'history' && historyFor && (
+            <div className="space-y-2">
+              <p className="text-slate-400 text-sm">
+                ₱{historyFor.amount.toFixed(2)} to {historyFor.receiver?.full_name || 'Unknown User'}
+              </p>
+              {runs.length === 0 ? (
+                <p className="text-slate-500 text-sm py-6 text-center">No runs yet</p>
+              ) : (
+                runs.map((run) => (
+                  <div key={run.id} className="bg-darkbg border border-white/5 rounded-xl p-4">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white text-sm">{formatDate(run.scheduled_for)}</span>
+                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${
+                        run.status === 'succeeded' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+                      }`}>
+                        {run.status}
+                      </span>
+                    </div>
+                    {run.status === 'failed' && (
+                      <p className="text-red-400 text-xs mt-2">
+                        {run.error_message || run.error_code || 'Transfer failed'}
+                      </p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ScheduleAction: React.FC<{
+  icon: React.ReactNode;
+  label: string;
+  onClick: () => void;
+}> = ({ icon, label, onClick }) => (
+  <button
+    onClick={onClick}
+    className="flex-1 flex items-center justify-center gap-1.5 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 text-xs font-bold py-2 rounded-xl transition-colors"
+  >
+    {React.isValidElement(icon) ? React.cloneElement(icon as React.ReactElement<{ className?: string }>, { className: 'w-3.5 h-3.5' }) : icon}
+    {label}
+  </button>
+);
+
+export default ScheduledTransfersModal;
@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
-import { X, Send, Loader2, CheckCircle2, QrCode, User } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, Send, Loader2, CheckCircle2, QrCode, User, AlertTriangle, Star } from 'lucide-react';
 import { TransactionService } from '../src/lib/transactionService';
-import { Profile } from '../src/context/types';
+import { ContactService } from '../src/lib/contactService';
+import ContactSaveForm from '../src/tabs/ContactSaveForm';
+import { Profile, SendPrefill, Contact, QuickPickRecipient, RecipientProfile, TransferLimits, TransferFeeQuote } from '../src/context/types';
 
 interface SendFundsModalProps {
   isOpen: boolean;
@@ -9,6 +11,7 @@ interface SendFundsModalProps {
   currentUser: Profile;
   onSuccess: () => void;
   onOpenQRScanner: () => void;
+  prefill?: SendPrefill | null;
 }
 
 type SendStep = 'input' | 'confirm' | 'processing' | 'success' | 'error';
@@ -18,7 +21,8 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
   onClose, 
   currentUser, 
   onSuccess,
-  onOpenQRScanner 
+  onOpenQRScanner,
+  prefill
 }) => {
   const [step, setStep] = useState<SendStep>('input');
   const [recipient, setRecipient] = useState('');
@@ -26,33 +30,136 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
   const [description, setDescription] = useState('');
   const [receiverProfile, setReceiverProfile] = useState<Profile | null>(null);
   const [error, setError] = useState('');
+  const [warning, setWarning] = useState('');
+  const [resolving, setResolving] = useState(false);
+  // One key per confirm step so double taps and retries cannot send twice
+  const [idempotencyKey, setIdempotencyKey] = useState('');
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [quickPicks, setQuickPicks] = useState<QuickPickRecipient[]>([]);
+  const [searchResults, setSearchResults] = useState<RecipientProfile[]>([]);
+  const [limits, setLimits] = useState<TransferLimits | null>(null);
+  const [feeQuote, setFeeQuote] = useState<TransferFeeQuote | null>(null);
 
-  if (!isOpen) return null;
-
-  const handleFindRecipient = async () => {
+  const resolveRecipient = async (identifier: string, scanned = false) => {
     setError('');
-    
-    if (!recipient.trim()) {
-      setError('Please enter a wallet address or username');
-      return;
-    }
+    setWarning('');
+    setResolving(true);
+
+    const profile = await TransactionService.getUserByIdentifier(identifier);
+    setResolving(false);
 
-    const profile = await TransactionService.getUserByIdentifier(recipient.trim());
-    
     if (!profile) {
-      setError('Recipient not found. Please check the wallet address or username.');
+      if (scanned) {
+        setWarning('The account in this QR code no longer exists. Do not send money to it; ask the recipient for a new code.');
+      } else {
+        setError('Recipient not found. Please check the wallet address or username.');
+      }
       return;
     }
 
     if (profile.id === currentUser.id) {
-      setError('You cannot send funds to yourself');
+      setError(scanned ? 'This is your own QR code. You cannot send funds to yourself' : 'You cannot send funds to yourself');
       return;
     }
 
     setReceiverProfile(profile);
+    setIdempotencyKey(crypto.randomUUID());
     setStep('confirm');
   };
 
+  // Favorites and recent recipients for the quick-pick chips
+  useEffect(() => {
+    if (!isOpen) return;
+
+    Promise.all([
+      ContactService.getContacts(currentUser.id),
+      ContactService.getRecentRecipients(currentUser.id),
+    ]).then(([saved, recent]) => {
+      setContacts(saved);
+      setQuickPicks(ContactService.buildQuickPicks(saved, recent));
+    });
+  }, [isOpen, currentUser.id]);
+
+  // Remaining allowance; the server enforces it again on send
+  useEffect(() => {
+    if (!isOpen) return;
+    TransactionService.getTransferLimits().then(setLimits);
+  }, [isOpen]);
+
+  // Fee for the amount being entered, so the confirm step can show the total
+  useEffect(() => {
+    if (!isOpen || step !== 'confirm') return;
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setFeeQuote(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setFeeQuote(await TransactionService.quoteTransferFee(amountNum));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [isOpen, step, amount]);
+
+  // Debounced username autocomplete while typing a recipient
+  useEffect(() => {
+    if (!isOpen || step !== 'input') return;
+
+    const term = recipient.trim();
+    if (term.length < 2 || /^[0-9a-f]{8}-[0-9a-f]{4}-/i.test(term)) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearchResults(await TransactionService.searchUsers(term, currentUser.id));
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [isOpen, step, recipient, currentUser.id]);
+
+  // Payment links open the modal with the recipient, amount and note filled in;
+  // scanned codes also skip straight to confirm once the recipient resolves
+  useEffect(() => {
+    if (!isOpen || !prefill) return;
+
+    setStep('input');
+    setReceiverProfile(null);
+    setRecipient(prefill.recipient);
+    setAmount(prefill.amount ? prefill.amount.toFixed(2) : '');
+    setDescription(prefill.description || '');
+
+    if (prefill.skipToConfirm) {
+      resolveRecipient(prefill.recipient, true);
+    }
+  }, [isOpen, prefill]);
+
+  if (!isOpen) return null;
+
+  const handleFindRecipient = async () => {
+    if (!recipient.trim()) {
+      setError('Please enter a wallet address or username');
+      return;
+    }
+
+    await resolveRecipient(recipient.trim());
+  };
+
+  const handlePickRecipient = (profile: RecipientProfile) => {
+    setRecipient(`@${profile.username}`);
+    setSearchResults([]);
+    resolveRecipient(profile.id);
+  };
+
+  // Saved contacts matching the input come first, then other users
+  const matchedContacts = ContactService.matchContacts(contacts, recipient).slice(0, 3);
+  const suggestions: (RecipientProfile & { nickname?: string | null })[] = [
+    ...matchedContacts
+      .filter(c => c.profile)
+      .map(c => ({ ...c.profile!, nickname: c.nickname })),
+    ...searchResults.filter(r => !matchedContacts.some(c => c.contact_id === r.id)),
+  ].slice(0, 5);
+
   const handleSend = async () => {
     if (!receiverProfile) return;
 
@@ -62,8 +169,27 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
       return;
     }
 
-    if (amountNum > currentUser.balance) {
-      setError(`Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
+    if (limits && amountNum > limits.per_transaction) {
+      setError(`Amount exceeds the per-transfer limit of ₱${limits.per_transaction.toFixed(2)}`);
+      return;
+    }
+
+    if (limits && amountNum > limits.daily_remaining) {
+      setError(`This exceeds your daily transfer limit. Remaining today: ₱${limits.daily_remaining.toFixed(2)}`);
+      return;
+    }
+
+    if (limits && amountNum > limits.monthly_remaining) {
+      setError(`This exceeds your monthly transfer limit. Remaining this month: ₱${limits.monthly_remaining.toFixed(2)}`);
+      return;
+    }
+
+    // Only trust the quote if it is for the amount being sent
+    const fee = feeQuote?.amount === amountNum ? feeQuote.fee : 0;
+    if (amountNum + fee > currentUser.balance) {
+      setError(fee > 0
+        ? `Insufficient balance to cover the amount and ₱${fee.toFixed(2)} fee. Available: ₱${currentUser.balance.toFixed(2)}`
+        : `Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
       return;
     }
 
@@ -76,9 +202,11 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
       amount: amountNum,
       currency: 'PHP',
       description: description.trim() || undefined,
+      idempotency_key: idempotencyKey,
     });
 
     if (result.success) {
+      ContactService.markUsed(currentUser.id, receiverProfile.id);
       setStep('success');
       setTimeout(() => {
         onSuccess();
@@ -97,6 +225,10 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
     setDescription('');
     setReceiverProfile(null);
     setError('');
+    setWarning('');
+    setIdempotencyKey('');
+    setSearchResults([]);
+    setFeeQuote(null);
     onClose();
   };
 
@@ -104,11 +236,12 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
     setStep('input');
     setReceiverProfile(null);
     setError('');
+    setIdempotencyKey('');
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
         
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-white/5">
@@ -141,15 +274,65 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
                     <input
                       type="text"
                       value={recipient}
-                      onChange={(e) => setRecipient(e.target.value)}
+                      onChange={(e) => {
+                        setRecipient(e.target.value);
+                        setWarning('');
+                      }}
                       placeholder="@username or wallet address"
                       className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
                       onKeyPress={(e) => e.key === 'Enter' && handleFindRecipient()}
                     />
                     <User className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-600" />
                   </div>
+
+                  {suggestions.length > 0 && (
+                    <div className="mt-2 bg-darkbg border border-white/10 rounded-xl overflow-hidden divide-y divide-white/5">
+                      {suggestions.map(s => (
+                        <button
+                          key={s.id}
+                          onClick={() => handlePickRecipient(s)}
+                          className="w-full flex items-center gap-3 px-4 py-2 hover:bg-white/5 text-left transition-colors"
+                        >
+                          <img
+                            src={`https://ui-avatars.com/api/?name=${encodeURIComponent(s.full_name)}&background=3C3CFF&color=fff&rounded=true`}
+                            alt={s.full_name}
+                            className="w-8 h-8 rounded-full"
+                          />
+                          <div className="min-w-0">
+                            <p className="text-sm font-bold text-white truncate">{s.nickname || s.full_name}</p>
+                            <p className="text-xs text-slate-500 truncate">@{s.username}</p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
+                {quickPicks.length > 0 && !recipient.trim() && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                      Favorites & Recent
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {quickPicks.map(pick => (
+                        <button
+                          key={pick.id}
+                          onClick={() => handlePickRecipient(pick)}
+                          className="flex items-center gap-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full pl-1 pr-3 py-1 text-sm text-white transition-colors"
+                        >
+                          <img
+                            src={`https://ui-avatars.com/api/?name=${encodeURIComponent(pick.full_name)}&background=3C3CFF&color=fff&rounded=true`}
+                            alt={pick.full_name}
+                            className="w-6 h-6 rounded-full"
+                          />
+                          {pick.nickname || `@${pick.username}`}
+                          {pick.is_favorite && <Star className="w-3 h-3 text-yellow-400 fill-yellow-400" />}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <button
                   onClick={onOpenQRScanner}
                   className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl px-4 py-3 text-white font-bold transition-colors"
@@ -159,6 +342,16 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
                 </button>
               </div>
 
+              {warning && (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-4 flex items-start gap-3">
+                  <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-yellow-400 text-sm font-bold">Account not found</p>
+                    <p className="text-yellow-400/80 text-sm">{warning}</p>
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
                   <p className="text-red-400 text-sm">{error}</p>
@@ -167,9 +360,10 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
 
               <button
                 onClick={handleFindRecipient}
-                disabled={!recipient.trim()}
-                className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
+                disabled={!recipient.trim() || resolving}
+                className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
               >
+                {resolving && <Loader2 className="w-4 h-4 animate-spin" />}
                 Continue
               </button>
             </>
@@ -191,6 +385,8 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
                   </div>
                 </div>
 
+                <ContactSaveForm ownerId={currentUser.id} contactId={receiverProfile.id} />
+
                 <div className="space-y-3">
                   <div>
                     <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
@@ -211,6 +407,11 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
                     <p className="text-xs text-slate-500 mt-2">
                       Available: ₱{currentUser.balance.toFixed(2)}
                     </p>
+                    {limits && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Limits: ₱{limits.per_transaction.toFixed(2)} per transfer · ₱{limits.daily_remaining.toFixed(2)} left today · ₱{limits.monthly_remaining.toFixed(2)} left this month
+                      </p>
+                    )}
                   </div>
 
                   <div>
@@ -228,6 +429,23 @@ const SendFundsModal: React.FC<SendFundsModalProps> = ({
                 </div>
               </div>
 
+              {feeQuote && feeQuote.amount === parseFloat(amount) && (
+                <div className="bg-darkbg border border-white/5 rounded-xl p-4 space-y-2 text-sm">
+                  <div className="flex justify-between text-slate-400">
+                    <span>Amount</span>
+                    <span>₱{feeQuote.amount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-400">
+                    <span>Fee{feeQuote.rule_name ? ` (${feeQuote.rule_name})` : ''}</span>
+                    <span>{feeQuote.fee > 0 ? `₱${feeQuote.fee.toFixed(2)}` : 'Free'}</span>
+                  </div>
+                  <div className="flex justify-between text-white font-bold border-t border-white/5 pt-2">
+                    <span>Total</span>
+                    <span>₱{feeQuote.total.toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
                   <p className="text-red-400 text-sm">{error}</p>
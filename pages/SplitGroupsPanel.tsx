@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Loader2, ChevronRight } from 'lucide-react';
+import { GroupService } from '../src/lib/groupService';
+import { ExpenseGroup, GroupSummary, Profile } from '../src/context/types';
+import GroupDetailModal from './GroupDetailModal';
+
+interface SplitGroupsPanelProps {
+  currentUser: Profile;
+  onSettled: () => void;
+}
+
+const SplitGroupsPanel: React.FC<SplitGroupsPanelProps> = ({ currentUser, onSettled }) => {
+  const [summaries, setSummaries] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [members, setMembers] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [selectedGroup, setSelectedGroup] = useState<ExpenseGroup | null>(null);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [currentUser.id]);
+
+  const fetchGroups = async () => {
+    setLoading(true);
+    try {
+      const groups = await GroupService.getGroupsForUser(currentUser.id);
+      setSummaries(await Promise.all(groups.map(g => GroupService.getGroupSummary(g))));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    setCreating(true);
+
+    const result = await GroupService.createGroup(
+      currentUser.id,
+      groupName,
+      members.split(',')
+    );
+
+    setCreating(false);
+
+    if (result.success) {
+      setShowCreate(false);
+      setGroupName('');
+      setMembers('');
+      fetchGroups();
+    } else {
+      setError(result.error || 'Failed to create group');
+    }
+  };
+
+  const myNet = (summary: GroupSummary) =>
+    summary.balances.find(b => b.profile_id === currentUser.id)?.net || 0;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-white tracking-tight">Split Bills</h3>
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="text-xs font-bold text-ethblue uppercase tracking-widest hover:text-white transition-colors"
+        >
+          {showCreate ? 'Close' : 'New Group'}
+        </button>
+      </div>
+
+      {showCreate && (
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-3">
+          <input
+            type="text"
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="Group name (e.g. Baguio Trip)"
+            className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+          />
+          <input
+            type="text"
+            value={members}
+            onChange={(e) => setMembers(e.target.value)}
+            placeholder="@alice, @bob"
+            className="w-full bg-darkbg border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+          />
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <button
+            onClick={handleCreate}
+            disabled={creating || !groupName.trim()}
+            className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            {creating && <Loader2 className="w-5 h-5 animate-spin" />}
+            Create Group
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 text-ethblue animate-spin" />
+        </div>
+      ) : summaries.length === 0 ? (
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 flex items-center gap-4">
+          <div className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center">
+            <Users className="w-5 h-5 text-slate-600" />
+          </div>
+          <p className="text-slate-500 text-sm">Share expenses with friends and settle up in one tap</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {summaries.map((summary) => {
+            const net = myNet(summary);
+
+            return (
+              <button
+                key={summary.group.id}
+                onClick={() => setSelectedGroup(summary.group)}
+                className="w-full bg-cardbg border border-white/5 rounded-2xl p-4 flex items-center gap-4 hover:border-white/10 transition-all text-left"
+              >
+                <div className="w-10 h-10 rounded-full bg-ethblue/10 flex items-center justify-center">
+                  <Users className="w-5 h-5 text-ethblue" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-bold text-sm truncate">{summary.group.name}</p>
+                  <p className="text-slate-500 text-xs mt-0.5">
+                    {summary.group.members.length} members · {summary.expenses.length} expenses
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  {summary.settled ? (
+                    <span className="text-xs font-bold text-slate-500">Settled</span>
+                  ) : (
+                    <span className={`text-sm font-bold ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {net >= 0 ? 'You get ' : 'You owe '}₱{Math.abs(net).toFixed(2)}
+                    </span>
+                  )}
+                </div>
+                <ChevronRight className="w-5 h-5 text-slate-600" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedGroup && (
+        <GroupDetailModal
+          group={selectedGroup}
+          currentUser={currentUser}
+          onClose={() => {
+            setSelectedGroup(null);
+            fetchGroups();
+          }}
+          onSettled={onSettled}
+        />
+      )}
+    </section>
+  );
+};
+
+export default SplitGroupsPanel;
@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react';
+import { X, DollarSign, BanknoteArrowDown, Loader2, CheckCircle2, Clock } from 'lucide-react';
+import { TradeService } from '../src/lib/tradeService';
+import { SwapService } from '../src/lib/swapService';
+import { Profile, TradeQuote, TradeSide } from '../src/context/types';
+
+interface TradeCryptoModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: Profile;
+  side: TradeSide;
+  onSuccess?: () => void;
+}
+
+type TradeStep = 'input' | 'confirm' | 'processing' | 'success';
+
+const TradeCryptoModal: React.FC<TradeCryptoModalProps> = ({
+  isOpen,
+  onClose,
+  currentUser,
+  side: initialSide,
+  onSuccess
+}) => {
+  const [side, setSide] = useState<TradeSide>(initialSide);
+  const [step, setStep] = useState<TradeStep>('input');
+  const [assets, setAssets] = useState<{ symbol: string; name: string }[]>([]);
+  const [symbol, setSymbol] = useState('BTC');
+  const [amount, setAmount] = useState('');
+  const [holdings, setHoldings] = useState<Record<string, number>>({});
+  const [quote, setQuote] = useState<TradeQuote | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [quoting, setQuoting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSide(initialSide);
+    TradeService.getTradableAssets().then(setAssets);
+    SwapService.getBalances(currentUser.id).then(setHoldings);
+  }, [isOpen, initialSide, currentUser.id]);
+
+  // Countdown to the quote's expiry
+  useEffect(() => {
+    if (!quote) return;
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((new Date(quote.expires_at).getTime() - Date.now()) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
+
+  if (!isOpen) return null;
+
+  const isBuy = side === 'buy';
+  const held = holdings[symbol] ?? 0;
+  const amountNum = parseFloat(amount);
+  const pricePhp = quote ? quote.price_usd * quote.php_per_usd : 0;
+
+  const handleSideChange = (next: TradeSide) => {
+    setSide(next);
+    setAmount('');
+    setError('');
+  };
+
+  const handleAmountChange = (value: string) => {
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const handleReview = async () => {
+    setError('');
+
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (isBuy && amountNum > currentUser.balance) {
+      setError(`Insufficient balance. Available: ₱${currentUser.balance.toFixed(2)}`);
+      return;
+    }
+
+    if (!isBuy && amountNum > held) {
+      setError(`Insufficient balance. Available: ${held} ${symbol}`);
+      return;
+    }
+
+    setQuoting(true);
+    const result = await TradeService.getQuote(side, symbol, amountNum);
+    setQuoting(false);
+
+    if (!result.success || !result.quote) {
+      setError(result.error || 'Could not get a quote');
+      return;
+    }
+
+    setSecondsLeft(Math.ceil((new Date(result.quote.expires_at).getTime() - Date.now()) / 1000));
+    setQuote(result.quote);
+    setStep('confirm');
+  };
+
+  const handleConfirm = async () => {
+    if (!quote) return;
+
+    setError('');
+    setStep('processing');
+
+    const result = await TradeService.executeTrade(quote.id, side);
+
+    if (!result.success) {
+      setStep('confirm');
+      setError(result.error || 'Trade failed');
+      if (result.code === 'QUOTE_EXPIRED' || result.code === 'QUOTE_USED') setSecondsLeft(0);
+      return;
+    }
+
+    setStep('success');
+    onSuccess?.();
+  };
+
+  const handleBack = () => {
+    setQuote(null);
+    setError('');
+    setStep('input');
+  };
+
+  const handleClose = () => {
+    setStep('input');
+    setAmount('');
+    setQuote(null);
+    setError('');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+              {isBuy ? (
+                <DollarSign className="w-5 h-5 text-ethblue" />
+              ) : (
+                <BanknoteArrowDown className="w-5 h-5 text-ethblue" />
+              )}
+            </div>
+            <h2 className="text-xl font-bold text-white">{isBuy ? 'Buy Crypto' : 'Sell Crypto'}</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+
+          {/* Input Step */}
+          {step === 'input' && (
+            <>
+              <div className="grid grid-cols-2 gap-2 bg-black/30 p-1 rounded-xl">
+                {(['buy', 'sell'] as TradeSide[]).map((s) => (
+                  <button
+                    key={s}
+                    onClick={() => handleSideChange(s)}
+                    className={`py-2 rounded-lg text-sm font-bold capitalize transition-colors ${
+                      side === s ? 'bg-ethblue text-white' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                    Asset
+                  </label>
+                  <select
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value)}
+                    className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+                  >
+                    {assets.map((asset) => (
+                      <option key={asset.symbol} value={asset.symbol}>
+                        {asset.name} ({asset.symbol})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">
+                      {isBuy ? 'Amount to Spend' : `Amount of ${symbol}`}
+                    </label>
+                    <button
+                      onClick={() => setAmount(isBuy ? currentUser.balance.toFixed(2) : held.toString())}
+                      className="text-xs text-ethblue font-bold hover:text-ethblue/80 transition-colors"
+                    >
+                      Max
+                    </button>
+                  </div>
+                  <div className="relative">
+                    {isBuy && (
+                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-2xl font-bold text-slate-500">₱</span>
+                    )}
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={amount}
+                      onChange={(e) => handleAmountChange(e.target.value)}
+                      placeholder={isBuy ? '0.00' : '0'}
+                      className={`w-full bg-black/30 border border-white/10 rounded-xl ${isBuy ? 'pl-10' : 'pl-4'} pr-4 py-4 text-2xl font-bold text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors`}
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    {isBuy
+                      ? `Balance: ₱${currentUser.balance.toFixed(2)} · 1% fee included`
+                      : `Holding: ${held} ${symbol} · 1% fee deducted`}
+                  </p>
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                  <p className="text-red-400 text-sm">{error}</p>
+                </div>
+              )}
+
+              <button
+                onClick={handleReview}
+                disabled={!amount || amountNum <= 0 || quoting}
+                className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
+              >
+                {quoting && <Loader2 className="w-5 h-5 animate-spin" />}
+                Review {isBuy ? 'Purchase' : 'Sale'}
+              </button>
+            </>
+          )}
+
+          {/* Confirm Step */}
+          {step === 'confirm' && quote && (
+            <>
+              <div className="bg-black/30 rounded-2xl p-4 space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Price</span>
+                  <span className="text-white font-medium">1 {quote.symbol} = ₱{pricePhp.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Exchange rate</span>
+                  <span className="text-white font-medium">
+                    ${quote.price_usd} × ₱{quote.php_per_usd}/USD
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">{isBuy ? 'You pay' : 'You sell'}</span>
+                  <span className="text-white font-medium">
+                    {isBuy ? `₱${quote.total.toFixed(2)}` : `${quote.crypto_amount} ${quote.symbol}`}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-400">Fee</span>
+                  <span className="text-white font-medium">₱{quote.fee.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm border-t border-white/5 pt-3">
+                  <span className="text-slate-400">You receive</span>
+                  <span className="text-white font-bold">
+                    {isBuy ? `${quote.crypto_amount} ${quote.symbol}` : `₱${quote.total.toFixed(2)}`}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 text-xs text-slate-500">
+                <Clock className="w-4 h-4" />
+                {secondsLeft > 0 ? `Quote expires in ${secondsLeft}s` : 'Quote expired'}
+              </div>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                  <p className="text-red-400 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleBack}
+                  className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors"
+                >
+                  Back
+                </button>
+                {secondsLeft > 0 ? (
+                  <button
+                    onClick={handleConfirm}
+                    className="flex-1 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
+                  >
+                    Confirm {isBuy ? 'Buy' : 'Sell'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleReview}
+                    disabled={quoting}
+                    className="flex-1 flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white font-bold py-3 rounded-xl transition-colors"
+                  >
+                    {quoting && <Loader2 className="w-5 h-5 animate-spin" />}
+                    Get New Quote
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Processing Step */}
+          {step === 'processing' && (
+            <div className="py-12 flex flex-col items-center justify-center space-y-4">
+              <Loader2 className="w-16 h-16 text-ethblue animate-spin" />
+              <p className="text-white font-bold">{isBuy ? 'Buying...' : 'Selling...'}</p>
+            </div>
+          )}
+
+          {/* Success Step */}
+          {step === 'success' && quote && (
+            <div className="space-y-6">
+              <div className="py-6 flex flex-col items-center justify-center space-y-4">
+                <div className="w-20 h-20 bg-green-500/20 rounded-full flex items-center justify-center animate-in zoom-in duration-300">
+                  <CheckCircle2 className="w-12 h-12 text-green-500" />
+                </div>
+                <div className="text-center space-y-2">
+                  <h3 className="text-2xl font-bold text-white">{isBuy ? 'Purchase Complete' : 'Sale Complete'}</h3>
+                  <p className="text-slate-400">
+                    {isBuy
+                      ? `Bought ${quote.crypto_amount} ${quote.symbol} for ₱${quote.total.toFixed(2)}`
+                      : `Sold ${quote.crypto_amount} ${quote.symbol} for ₱${quote.total.toFixed(2)}`}
+                  </p>
+                </div>
+              </div>
+
+              <button
+                onClick={handleClose}
+                className="w-full bg-white/5 hover:bg-white/10 border border-white/10 text-white font-bold py-3 rounded-xl transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradeCryptoModal;
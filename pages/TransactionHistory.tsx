@@ -1,29 +1,22 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ArrowUpRight, ArrowDownLeft, Loader2, RefreshCw } from 'lucide-react';
 import { TransactionService } from '../src/lib/transactionService';
+import { TransactionHistoryItem, TransactionCursor } from '../src/context/types';
 
 interface TransactionHistoryProps {
   userId: string;
   onRefresh?: () => void;
 }
 
-interface TransactionItem {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  amount: number;
-  currency: string;
-  type: 'send' | 'receive';
-  timestamp: string;
-  description?: string;
-  sender?: { full_name: string; username: string };
-  receiver?: { full_name: string; username: string };
-}
+const PAGE_SIZE = 20;
 
 const TransactionHistory: React.FC<TransactionHistoryProps> = ({ userId, onRefresh }) => {
-  const [transactions, setTransactions] = useState<TransactionItem[]>([]);
+  const [transactions, setTransactions] = useState<TransactionHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [nextCursor, setNextCursor] = useState<TransactionCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     fetchTransactions();
@@ -37,8 +30,9 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ userId, onRefre
     }
 
     try {
-      const data = await TransactionService.getTransactionHistory(userId);
-      setTransactions(data);
+      const page = await TransactionService.getTransactionHistory(userId, { limit: PAGE_SIZE });
+      setTransactions(page.items);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error fetching transactions:', error);
     } finally {
@@ -47,6 +41,40 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ userId, onRefre
     }
   };
 
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await TransactionService.getTransactionHistory(userId, {
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setTransactions(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, loading]);
+
   const handleRefresh = () => {
     fetchTransactions(true);
     if (onRefresh) onRefresh();
@@ -176,6 +204,15 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ userId, onRefre
           );
         })}
       </div>
+
+      {/* Infinite scroll sentinel */}
+      <div ref={loadMoreRef} className="flex items-center justify-center py-4">
+        {loadingMore ? (
+          <Loader2 className="w-5 h-5 text-ethblue animate-spin" />
+        ) : !nextCursor ? (
+          <p className="text-slate-600 text-xs">No older transactions</p>
+        ) : null}
+      </div>
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation, Location } from 'react-router-dom';
 import { useAuth } from './AuthContext';
 import { Loader2 } from 'lucide-react';
 
@@ -13,6 +13,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   requireAuth = true 
 }) => {
   const { session, loading } = useAuth();
+  const location = useLocation();
 
   // Show loading spinner while auth state is being determined
   if (loading) {
@@ -23,14 +24,16 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  // Require authentication
+  // Require authentication; remember where the user was headed so deep
+  // links (payment links, shared requests) still open after sign-in
   if (requireAuth && !session) {
-    return <Navigate to="/auth" replace />;
+    return <Navigate to="/auth" replace state={{ from: location }} />;
   }
 
   // Redirect authenticated users away (e.g., from /auth to /dashboard)
   if (!requireAuth && session) {
-    return <Navigate to="/dashboard" replace />;
+    const from = (location.state as { from?: Location } | null)?.from;
+    return <Navigate to={from || '/dashboard'} replace state={from?.state} />;
   }
 
   // User meets the requirement, render children
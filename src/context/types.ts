@@ -21,6 +21,7 @@ export interface Transaction {
   sender_id: string;
   receiver_id: string;
   amount: number;
+  fee?: number; // Paid by the sender on top of amount
   currency: string;
   type: 'send' | 'receive';
   timestamp: string;
@@ -29,18 +30,397 @@ export interface Transaction {
   receiver_name?: string;
 }
 
+// Transaction as returned by getTransactionHistory, with both parties joined
+export interface TransactionHistoryItem extends Transaction {
+  sender?: { full_name: string; username: string };
+  receiver?: { full_name: string; username: string };
+  ledger_kind?: string; // Set for balance movements that are not transfers (crypto trades, order reserves)
+}
+
+// Keyset cursor: the (timestamp, id) of the last row already loaded
+export interface TransactionCursor {
+  timestamp: string;
+  id: string;
+}
+
+// Server-side filters for getTransactionHistory; all fields are optional
+export interface TransactionFilters {
+  direction?: 'send' | 'receive';
+  counterparty?: string; // Username, partial match
+  minAmount?: number;
+  maxAmount?: number;
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string; // YYYY-MM-DD, inclusive
+  currency?: string;
+  search?: string; // Free text matched against the description
+}
+
+export interface TransactionHistoryOptions {
+  limit?: number;
+  cursor?: TransactionCursor | null;
+  filters?: TransactionFilters;
+}
+
+export interface TransactionPage {
+  items: TransactionHistoryItem[];
+  nextCursor: TransactionCursor | null; // null when there is nothing older
+}
+
+// File formats offered by the activity export
+export type ExportFormat = 'csv' | 'ofx' | 'qif';
+
+// Monthly statement; balances are reconstructed from history backwards
+// from the current Profile.balance
+export interface StatementLine {
+  transaction: TransactionHistoryItem;
+  amount: number; // Signed from the profile's perspective
+  running_balance: number;
+}
+
+export interface MonthlyStatement {
+  profile_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD, last day of the month
+  opening_balance: number;
+  closing_balance: number;
+  total_sent: number;
+  total_received: number;
+  lines: StatementLine[];
+}
+
+// Proof of payment for a single transaction; also what the public
+// verification route returns
+export interface TransactionReceipt {
+  transaction_id: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  timestamp: string;
+  description?: string;
+  sender: { full_name: string; username: string };
+  receiver: { full_name: string; username: string };
+}
+
+// Payment QR codes (format v2): signed server-side, checked before paying
+export interface PaymentQRPayload {
+  type: 'lapore-finance-transfer';
+  v: number;
+  userId: string;
+  username?: string;
+  amount?: number; // Requested amount, if the receiver set one
+  memo?: string;
+  iat: number; // Unix seconds
+  exp: number; // Unix seconds
+  sig: string;
+}
+
+export type QRErrorCode =
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION'
+  | 'QR_EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_CHECKSUM'
+  | 'UNSUPPORTED_CURRENCY'
+  | 'UNSUPPORTED_NETWORK'
+  | 'VERIFICATION_FAILED';
+
+// What a successfully verified QR asks the scanner to pay
+export interface ScannedPayment {
+  format: 'lapore' | 'qrph';
+  userId: string;
+  username?: string;
+  amount?: number;
+  memo?: string;
+  merchantName?: string; // QR Ph only
+  reference?: string; // QR Ph only
+  expiresAt?: string; // Signed Lapore codes only; QR Ph codes do not expire
+}
+
+// Decoded EMVCo merchant-presented QR (QR Ph)
+export interface EmvcoMerchantAccount {
+  tag: string; // 26-51
+  guid: string; // Sub-tag 00, identifies the network
+  fields: Record<string, string>;
+}
+
+export interface EmvcoPayload {
+  pointOfInitiation: 'static' | 'dynamic';
+  merchantAccounts: EmvcoMerchantAccount[];
+  merchantCategoryCode?: string;
+  currency?: string; // ISO 4217 numeric, e.g. 608 for PHP
+  amount?: number;
+  countryCode?: string;
+  merchantName?: string;
+  merchantCity?: string;
+  reference?: string; // Additional data 05 (reference label) or 01 (bill number)
+  purpose?: string; // Additional data 08
+}
+
+export interface QRParseResult {
+  success: boolean;
+  payment?: ScannedPayment;
+  error?: string;
+  code?: QRErrorCode;
+}
+
+// L/M/Q/H recover roughly 7/15/25/30% of damaged modules
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRRenderOptions {
+  size?: number; // Output width/height in px
+  errorCorrection?: QRErrorCorrectionLevel;
+  margin?: number; // Quiet zone in modules
+  darkColor?: string;
+  lightColor?: string;
+  logo?: boolean; // Lapore-Finance mark over the centre
+}
+
+// Values to pre-fill SendFundsModal with (payment links, scanned codes)
+export interface SendPrefill {
+  recipient: string; // Username or user ID
+  amount?: number;
+  description?: string;
+  skipToConfirm?: boolean; // Resolve the recipient immediately (scanned codes)
+}
+
 export interface TransactionRequest {
   sender_id: string;
   receiver_id: string;
   amount: number;
   currency?: string;
   description?: string;
+  idempotency_key?: string; // Client-generated UUID; replays return the original transfer
 }
 
+// Failure codes returned by the transfer procedures
+export type TransactionErrorCode =
+  | 'UNAUTHORIZED'
+  | 'INVALID_AMOUNT'
+  | 'SELF_TRANSFER'
+  | 'SENDER_NOT_FOUND'
+  | 'RECEIVER_NOT_FOUND'
+  | 'INSUFFICIENT_FUNDS'
+  | 'REQUEST_NOT_FOUND'
+  | 'REQUEST_EXPIRED'
+  | 'REQUEST_CLOSED'
+  | 'LIMIT_EXCEEDED'
+  | 'UNSUPPORTED_CURRENCY'
+  | 'UNKNOWN';
+
 export interface TransactionResult {
   success: boolean;
   transaction?: Transaction;
   error?: string;
+  code?: TransactionErrorCode;
+}
+
+// Fee schedule result for a prospective transfer
+export interface TransferFeeQuote {
+  amount: number;
+  fee: number;
+  total: number; // What leaves the sender's balance
+  rule_name?: string;
+}
+
+// Which cap blocked a transfer when code is LIMIT_EXCEEDED
+export type TransferLimitKind = 'per_transaction' | 'daily' | 'monthly';
+
+// The sender's limit tier and usage; days and months run in Manila time
+export interface TransferLimits {
+  tier: string;
+  per_transaction: number;
+  daily_limit: number;
+  daily_used: number;
+  daily_remaining: number;
+  monthly_limit: number;
+  monthly_used: number;
+  monthly_remaining: number;
+}
+
+// Contact types
+export type RecipientProfile = Pick<Profile, 'id' | 'full_name' | 'username'>;
+
+export interface Contact {
+  id: string;
+  owner_id: string;
+  contact_id: string;
+  nickname?: string | null;
+  is_favorite: boolean;
+  created_at: string;
+  last_used_at?: string | null;
+  profile?: RecipientProfile;
+}
+
+export interface ContactResult {
+  success: boolean;
+  contact?: Contact;
+  error?: string;
+}
+
+// A quick-pick chip in the send flow: a saved contact or a recent recipient
+export interface QuickPickRecipient extends RecipientProfile {
+  nickname?: string | null;
+  is_favorite: boolean;
+}
+
+// Payment request types
+export type PaymentRequestStatus = 'pending' | 'paid' | 'declined' | 'cancelled' | 'expired';
+
+export interface PaymentRequest {
+  id: string;
+  requester_id: string;
+  payer_id: string | null; // null for open request links
+  amount: number;
+  currency: string;
+  note?: string;
+  status: PaymentRequestStatus;
+  expires_at: string;
+  transaction_id?: string;
+  paid_by?: string;
+  created_at: string;
+  responded_at?: string;
+  requester?: { full_name: string; username: string };
+  payer?: { full_name: string; username: string } | null;
+}
+
+export interface CreatePaymentRequest {
+  requester_id: string;
+  payer_identifier?: string; // Username or user ID; omit for an open link
+  amount: number;
+  currency?: string;
+  note?: string;
+  expires_in_days?: number;
+}
+
+export interface PaymentRequestResult {
+  success: boolean;
+  request?: PaymentRequest;
+  error?: string;
+}
+
+// Scheduled transfer types
+export type TransferFrequency = 'once' | 'weekly' | 'monthly';
+
+export type ScheduledTransferStatus = 'active' | 'paused' | 'cancelled' | 'completed' | 'failed';
+
+export interface ScheduledTransferRequest extends TransactionRequest {
+  frequency: TransferFrequency;
+  start_at: string; // ISO timestamp of the first occurrence
+}
+
+export interface ScheduledTransfer {
+  id: string;
+  sender_id: string;
+  receiver_id: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  frequency: TransferFrequency;
+  start_at: string;
+  run_count: number;
+  next_run_at: string;
+  last_run_at?: string;
+  status: ScheduledTransferStatus;
+  created_at: string;
+  updated_at: string;
+  receiver?: { full_name: string; username: string };
+}
+
+export interface ScheduledTransferUpdate {
+  amount?: number;
+  description?: string;
+  frequency?: TransferFrequency;
+  start_at?: string; // Re-anchors the schedule at its first future occurrence
+}
+
+export interface ScheduledTransferRun {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  executed_at: string;
+  status: 'succeeded' | 'failed';
+  transaction_id?: string;
+  error_code?: TransactionErrorCode;
+  error_message?: string;
+}
+
+// Split-bill group types
+export interface GroupMember {
+  profile_id: string;
+  full_name: string;
+  username: string;
+}
+
+export interface ExpenseGroup {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  members: GroupMember[];
+}
+
+export interface GroupExpense {
+  id: string;
+  group_id: string;
+  paid_by: string;
+  amount: number;
+  description: string;
+  created_at: string;
+  shares: { profile_id: string; amount: number }[];
+}
+
+export interface GroupSettlement {
+  id: string;
+  group_id: string;
+  from_profile_id: string;
+  to_profile_id: string;
+  amount: number;
+  transaction_id: string;
+  created_at: string;
+}
+
+// Net position of a member: positive means the group owes them
+export interface GroupBalance {
+  profile_id: string;
+  net: number;
+}
+
+export interface SettlementSuggestion {
+  from_profile_id: string;
+  to_profile_id: string;
+  amount: number;
+}
+
+export interface GroupSummary {
+  group: ExpenseGroup;
+  expenses: GroupExpense[];
+  settlements: GroupSettlement[];
+  balances: GroupBalance[];
+  suggestions: SettlementSuggestion[];
+  settled: boolean;
+}
+
+// Ledger types
+export interface LedgerPosting {
+  id: string;
+  entry_id: string;
+  account_id: string;
+  debit: number;
+  credit: number;
+  created_at: string;
+  entry?: {
+    kind: string; // transfer, transfer_fee, opening_balance, etc.
+    memo?: string;
+    transaction_id?: string;
+  };
+}
+
+// A profile whose stored balance disagrees with its ledger postings
+export interface LedgerDiscrepancy {
+  profile_id: string;
+  stored_balance: number;
+  ledger_balance: number;
+  difference: number;
 }
 
 // Crypto Asset types
@@ -70,6 +450,186 @@ export interface PortfolioAsset extends CryptoAsset {
   profit_loss_percentage: number;
 }
 
+// Failure codes returned by the crypto trading procedures
+export type CryptoErrorCode =
+  | 'UNAUTHORIZED'
+  | 'INVALID_AMOUNT'
+  | 'SAME_ASSET'
+  | 'UNSUPPORTED_ASSET'
+  | 'PRICE_UNAVAILABLE'
+  | 'INSUFFICIENT_FUNDS'
+  | 'QUOTE_NOT_FOUND'
+  | 'QUOTE_USED'
+  | 'QUOTE_EXPIRED'
+  | 'INVALID_SLIPPAGE'
+  | 'PRICE_CHANGED'
+  | 'INVALID_SIDE'
+  | 'INVALID_ORDER_TYPE'
+  | 'INVALID_PRICE'
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_CLOSED'
+  | 'UNKNOWN';
+
+// A server-priced, short-lived offer to swap one holding for another
+export interface SwapQuote {
+  id: string;
+  from_symbol: string;
+  to_symbol: string;
+  from_amount: number;
+  to_amount: number; // After the fee
+  rate: number; // to units per from unit, before the fee
+  fee_amount: number; // In the to asset
+  from_price_usd: number;
+  to_price_usd: number;
+  slippage_percent: number;
+  min_to_amount: number; // Execution fails with PRICE_CHANGED below this
+  expires_at: string;
+}
+
+export interface SwapQuoteResult {
+  success: boolean;
+  quote?: SwapQuote;
+  error?: string;
+  code?: CryptoErrorCode;
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+// A server-priced, short-lived offer to buy or sell one asset for PHP
+export interface TradeQuote {
+  id: string;
+  side: TradeSide;
+  symbol: string;
+  crypto_amount: number;
+  php_amount: number; // Value of crypto_amount, before the fee
+  fee: number; // In PHP
+  total: number; // PHP paid on a buy, received on a sell
+  price_usd: number;
+  php_per_usd: number;
+  expires_at: string;
+}
+
+export interface TradeQuoteResult {
+  success: boolean;
+  quote?: TradeQuote;
+  error?: string;
+  code?: CryptoErrorCode;
+}
+
+// Limit orders fill at the trigger or better; stops are stop-loss sells
+export type CryptoOrderType = 'limit' | 'stop';
+
+export type CryptoOrderStatus = 'open' | 'filled' | 'cancelled';
+
+// A resting order; its funds are reserved until it fills or is cancelled
+export interface CryptoOrder {
+  id: string;
+  user_id: string;
+  side: TradeSide;
+  order_type: CryptoOrderType;
+  symbol: string;
+  crypto_amount: number;
+  trigger_price: number; // PHP per unit
+  reserved_php: number; // Buys: cost plus fee at the trigger
+  reserved_cost_usd: number; // Sells: cost basis of the reserved units
+  status: CryptoOrderStatus;
+  fill_price?: number; // PHP per unit
+  created_at: string;
+  filled_at?: string;
+  cancelled_at?: string;
+}
+
+export interface CryptoOrderRequest {
+  side: TradeSide;
+  order_type: CryptoOrderType;
+  symbol: string;
+  crypto_amount: number;
+  trigger_price: number;
+}
+
+export interface CryptoOrderResult {
+  success: boolean;
+  order?: CryptoOrder;
+  error?: string;
+  code?: CryptoErrorCode;
+}
+
+export type CryptoTransactionKind = 'swap' | 'buy' | 'sell';
+
+// A change to a user's crypto holdings
+export interface CryptoTransaction {
+  id: string;
+  user_id: string;
+  kind: CryptoTransactionKind;
+  from_symbol?: string;
+  from_amount?: number;
+  to_symbol?: string;
+  to_amount?: number;
+  rate: number;
+  fee_amount: number;
+  fee_symbol?: string;
+  from_price_usd?: number;
+  to_price_usd?: number;
+  fx_rate?: number; // PHP per USD, for buys and sells
+  order_id?: string; // Set when the trade filled a resting order
+  recurring_buy_id?: string; // Set when a recurring buy plan made the trade
+  created_at: string;
+}
+
+export interface CryptoTransactionResult {
+  success: boolean;
+  transaction?: CryptoTransaction;
+  error?: string;
+  code?: CryptoErrorCode;
+  repriced_amount?: number; // PRICE_CHANGED: what the swap would pay now
+}
+
+// Recurring buy (dollar-cost averaging) types
+export type RecurringBuyFrequency = Exclude<TransferFrequency, 'once'>;
+
+export type RecurringBuyStatus = 'active' | 'paused' | 'cancelled';
+
+export interface RecurringBuyRequest {
+  user_id: string;
+  symbol: string;
+  php_amount: number; // Spent per run, fee included
+  frequency: RecurringBuyFrequency;
+  start_at: string; // ISO timestamp of the first buy
+}
+
+export interface RecurringBuy {
+  id: string;
+  user_id: string;
+  symbol: string;
+  php_amount: number;
+  frequency: RecurringBuyFrequency;
+  start_at: string;
+  run_count: number;
+  next_run_at: string;
+  last_run_at?: string;
+  status: RecurringBuyStatus;
+  total_invested_php: number;
+  total_crypto_amount: number;
+  total_cost_usd: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringBuyRun {
+  id: string;
+  plan_id: string;
+  scheduled_for: string;
+  executed_at: string;
+  status: 'succeeded' | 'failed';
+  transaction_id?: string;
+  php_amount?: number;
+  crypto_amount?: number;
+  price_usd?: number;
+  fx_rate?: number;
+  error_code?: CryptoErrorCode;
+  error_message?: string;
+}
+
 // Navigation types
 export type NavigationTab = 'wallet' | 'assets' | 'swap' | 'activity' | 'settings';
 
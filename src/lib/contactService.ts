@@ -0,0 +1,222 @@
+import { supabase } from './supabase';
+import { Contact, ContactResult, QuickPickRecipient, RecipientProfile } from '../context/types';
+
+/**
+ * ContactService manages the address book used by the send flow
+ * Saved contacts carry an optional nickname and favorite flag; recent
+ * recipients are read from the user's sent transactions
+ */
+export class ContactService {
+
+  private static readonly SELECT_WITH_PROFILE = `
+    *,
+    profile:profiles!contacts_contact_id_fkey(id, full_name, username)
+  `;
+
+  /**
+   * All saved contacts, favorites first, then most recently used
+   */
+  static async getContacts(ownerId: string): Promise<Contact[]> {
+    try {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select(this.SELECT_WITH_PROFILE)
+        .eq('owner_id', ownerId)
+        .order('is_favorite', { ascending: false })
+        .order('last_used_at', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching contacts:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching contacts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The saved contact for a profile, if any
+   */
+  static async getContact(ownerId: string, contactId: string): Promise<Contact | null> {
+    try {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select(this.SELECT_WITH_PROFILE)
+        .eq('owner_id', ownerId)
+        .eq('contact_id', contactId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching contact:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching contact:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a recipient, or update the nickname/favorite of an existing contact
+   */
+  static async saveContact(
+    ownerId: string,
+    contactId: string,
+    options: { nickname?: string; isFavorite?: boolean } = {}
+  ): Promise<ContactResult> {
+    if (ownerId === contactId) {
+      return { success: false, error: 'You cannot add yourself as a contact' };
+    }
+
+    const nickname = options.nickname?.trim() || null;
+    if (nickname && nickname.length > 40) {
+      return { success: false, error: 'Nickname must be 40 characters or fewer' };
+    }
+
+    try {
+      // Only send the fields given so an update keeps the others
+      const row: Record<string, unknown> = { owner_id: ownerId, contact_id: contactId };
+      if (options.nickname !== undefined) row.nickname = nickname;
+      if (options.isFavorite !== undefined) row.is_favorite = options.isFavorite;
+
+      const { data, error } = await supabase
+        .from('contacts')
+        .upsert(row, { onConflict: 'owner_id,contact_id' })
+        .select(this.SELECT_WITH_PROFILE)
+        .single();
+
+      if (error) {
+        console.error('Error saving contact:', error);
+        return { success: false, error: 'Failed to save contact' };
+      }
+
+      return { success: true, contact: data };
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      return { success: false, error: 'Failed to save contact' };
+    }
+  }
+
+  static async setFavorite(id: string, isFavorite: boolean): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('contacts')
+        .update({ is_favorite: isFavorite })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating contact:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating contact:', error);
+      return false;
+    }
+  }
+
+  static async removeContact(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('contacts').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error removing contact:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error removing contact:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Bump a saved contact after a send so it sorts first; no-op for unsaved recipients
+   */
+  static async markUsed(ownerId: string, contactId: string): Promise<void> {
+    try {
+      await supabase
+        .from('contacts')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('owner_id', ownerId)
+        .eq('contact_id', contactId);
+    } catch (error) {
+      console.error('Error updating contact:', error);
+    }
+  }
+
+  /**
+   * Distinct people the user has recently sent to, newest first
+   */
+  static async getRecentRecipients(ownerId: string, limit = 6): Promise<RecipientProfile[]> {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('receiver_id, receiver:profiles!transactions_receiver_id_fkey(id, full_name, username)')
+        .eq('sender_id', ownerId)
+        .order('timestamp', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('Error fetching recent recipients:', error);
+        return [];
+      }
+
+      const recipients = new Map<string, RecipientProfile>();
+      for (const row of (data || []) as unknown as { receiver_id: string; receiver: RecipientProfile | null }[]) {
+        if (row.receiver && !recipients.has(row.receiver_id)) {
+          recipients.set(row.receiver_id, row.receiver);
+        }
+      }
+
+      return Array.from(recipients.values()).slice(0, limit);
+    } catch (error) {
+      console.error('Error fetching recent recipients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Chips for the send flow: favorites, then recent recipients (with their
+   * nicknames if saved)
+   */
+  static buildQuickPicks(contacts: Contact[], recent: RecipientProfile[], limit = 8): QuickPickRecipient[] {
+    const byProfile = new Map(contacts.map(c => [c.contact_id, c]));
+    const picks: QuickPickRecipient[] = [];
+
+    for (const contact of contacts) {
+      if (contact.is_favorite && contact.profile) {
+        picks.push({ ...contact.profile, nickname: contact.nickname, is_favorite: true });
+      }
+    }
+
+    for (const profile of recent) {
+      if (picks.some(p => p.id === profile.id)) continue;
+      const contact = byProfile.get(profile.id);
+      picks.push({ ...profile, nickname: contact?.nickname, is_favorite: false });
+    }
+
+    return picks.slice(0, limit);
+  }
+
+  /**
+   * Saved contacts whose nickname, name or username matches the typed text
+   */
+  static matchContacts(contacts: Contact[], query: string): Contact[] {
+    const term = query.trim().replace(/^@/, '').toLowerCase();
+    if (!term) return [];
+
+    return contacts.filter(c =>
+      [c.nickname, c.profile?.full_name, c.profile?.username]
+        .some(value => value?.toLowerCase().includes(term))
+    );
+  }
+}
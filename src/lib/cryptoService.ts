@@ -14,6 +14,43 @@ export class CryptoService {
   private static priceCache = new Map<string, { price: CryptoPrice; timestamp: number }>();
   private static readonly CACHE_DURATION = 60000; // 1 minute
 
+  // Symbol -> CoinGecko ID; add more mappings as needed
+  private static readonly COINGECKO_IDS: Record<string, string> = {
+    'BTC': 'bitcoin',
+    'ETH': 'ethereum',
+    'USDT': 'tether',
+    'BNB': 'binancecoin',
+    'SOL': 'solana',
+    'USDC': 'usd-coin',
+    'XRP': 'ripple',
+    'ADA': 'cardano',
+    'DOGE': 'dogecoin',
+    'TRX': 'tron',
+    'TON': 'the-open-network',
+    'MATIC': 'matic-network',
+    'DOT': 'polkadot',
+    'LTC': 'litecoin',
+    'SHIB': 'shiba-inu',
+  };
+
+  private static readonly NAMES: Record<string, string> = {
+    'BTC': 'Bitcoin',
+    'ETH': 'Ethereum',
+    'USDT': 'Tether',
+    'BNB': 'BNB',
+    'SOL': 'Solana',
+    'USDC': 'USD Coin',
+    'XRP': 'XRP',
+    'ADA': 'Cardano',
+    'DOGE': 'Dogecoin',
+    'TRX': 'TRON',
+    'TON': 'Toncoin',
+    'MATIC': 'Polygon',
+    'DOT': 'Polkadot',
+    'LTC': 'Litecoin',
+    'SHIB': 'Shiba Inu',
+  };
+
   /**
    * Get current cryptocurrency prices
    * @param symbols Array of crypto symbols (e.g., ['BTC', 'ETH'])
@@ -142,87 +179,26 @@ export class CryptoService {
   }
 
   /**
-   * Convert crypto symbol to CoinGecko ID
-   * Add more mappings as needed
+   * Assets this service can price, as symbol and full name
    */
-  private static symbolToCoinGeckoId(symbol: string): string {
-    const mapping: Record<string, string> = {
-      'BTC': 'bitcoin',
-      'ETH': 'ethereum',
-      'USDT': 'tether',
-      'BNB': 'binancecoin',
-      'SOL': 'solana',
-      'USDC': 'usd-coin',
-      'XRP': 'ripple',
-      'ADA': 'cardano',
-      'DOGE': 'dogecoin',
-      'TRX': 'tron',
-      'TON': 'the-open-network',
-      'MATIC': 'matic-network',
-      'DOT': 'polkadot',
-      'LTC': 'litecoin',
-      'SHIB': 'shiba-inu',
-    };
-
-    return mapping[symbol.toUpperCase()] || symbol.toLowerCase();
+  static getSupportedAssets(): { symbol: string; name: string }[] {
+    return Object.keys(this.COINGECKO_IDS).map(symbol => ({
+      symbol,
+      name: this.symbolToName(symbol),
+    }));
   }
 
   /**
-   * Convert symbol to full name
+   * Convert crypto symbol to CoinGecko ID
    */
-  private static symbolToName(symbol: string): string {
-    const mapping: Record<string, string> = {
-      'BTC': 'Bitcoin',
-      'ETH': 'Ethereum',
-      'USDT': 'Tether',
-      'BNB': 'BNB',
-      'SOL': 'Solana',
-      'USDC': 'USD Coin',
-      'XRP': 'XRP',
-      'ADA': 'Cardano',
-      'DOGE': 'Dogecoin',
-      'TRX': 'TRON',
-      'TON': 'Toncoin',
-      'MATIC': 'Polygon',
-      'DOT': 'Polkadot',
-      'LTC': 'Litecoin',
-      'SHIB': 'Shiba Inu',
-    };
-
-    return mapping[symbol.toUpperCase()] || symbol;
+  private static symbolToCoinGeckoId(symbol: string): string {
+    return this.COINGECKO_IDS[symbol.toUpperCase()] || symbol.toLowerCase();
   }
 
   /**
-   * Add or update crypto asset
+   * Convert symbol to full name
    */
-  static async upsertCryptoAsset(
-    userId: string,
-    symbol: string,
-    amount: number,
-    purchasePriceUsd: number
-  ): Promise<{ success: boolean; error?: string }> {
-    try {
-      const { error } = await supabase
-        .from('crypto_assets')
-        .upsert({
-          user_id: userId,
-          symbol: symbol.toUpperCase(),
-          name: this.symbolToName(symbol),
-          amount,
-          purchase_price_usd: purchasePriceUsd,
-        }, {
-          onConflict: 'user_id,symbol',
-        });
-
-      if (error) {
-        console.error('Error upserting crypto asset:', error);
-        return { success: false, error: error.message };
-      }
-
-      return { success: true };
-    } catch (error: any) {
-      console.error('Error upserting crypto asset:', error);
-      return { success: false, error: error.message };
-    }
+  private static symbolToName(symbol: string): string {
+    return this.NAMES[symbol.toUpperCase()] || symbol;
   }
-}
\ No newline at end of file
+}
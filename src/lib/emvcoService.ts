@@ -0,0 +1,158 @@
+import { EmvcoMerchantAccount, EmvcoPayload, QRErrorCode } from '../context/types';
+
+/**
+ * EmvcoService reads and writes EMVCo merchant-presented QR payloads,
+ * the TLV format behind QR Ph
+ * Each field is a two-digit ID, a two-digit length and the value; the
+ * payload ends with tag 63, a CRC-16/CCITT-FALSE over everything before it.
+ */
+export class EmvcoService {
+
+  // Merchant account template GUID identifying Lapore-Finance accounts
+  static readonly LAPORE_GUID = 'com.laporefinance';
+
+  private static readonly LAPORE_ACCOUNT_TAG = '26';
+  private static readonly PHP_CURRENCY = '608';
+  private static readonly P2P_MERCHANT_CATEGORY = '6016';
+
+  /**
+   * Cheap check for the mandatory leading payload format indicator
+   */
+  static isEmvco(data: string): boolean {
+    return data.trim().startsWith('000201');
+  }
+
+  /**
+   * Decode a payload, checking the TLV structure and the CRC
+   */
+  static decode(data: string): { success: boolean; payload?: EmvcoPayload; code?: QRErrorCode } {
+    const payload = data.trim();
+    const fields = this.parseTLV(payload);
+
+    const crc = fields?.get('63');
+    if (!fields || !crc || !payload.endsWith(`6304${crc}`)) {
+      return { success: false, code: 'INVALID_FORMAT' };
+    }
+    if (this.crc16(payload.slice(0, -4)) !== crc.toUpperCase()) {
+      return { success: false, code: 'INVALID_CHECKSUM' };
+    }
+
+    const merchantAccounts: EmvcoMerchantAccount[] = [];
+    for (const [tag, value] of fields) {
+      const id = Number(tag);
+      if (id >= 26 && id <= 51) {
+        const sub = this.parseTLV(value);
+        if (!sub) return { success: false, code: 'INVALID_FORMAT' };
+        merchantAccounts.push({ tag, guid: sub.get('00') || '', fields: Object.fromEntries(sub) });
+      }
+    }
+
+    const additional = fields.has('62') ? this.parseTLV(fields.get('62')!) : new Map<string, string>();
+    if (!additional) return { success: false, code: 'INVALID_FORMAT' };
+
+    const amount = fields.has('54') ? parseFloat(fields.get('54')!) : undefined;
+
+    const decoded: EmvcoPayload = {
+      pointOfInitiation: fields.get('01') === '12' ? 'dynamic' : 'static',
+      merchantAccounts,
+      merchantCategoryCode: fields.get('52'),
+      currency: fields.get('53'),
+      amount: amount !== undefined && !isNaN(amount) ? amount : undefined,
+      countryCode: fields.get('58'),
+      merchantName: fields.get('59'),
+      merchantCity: fields.get('60'),
+      reference: additional.get('05') || additional.get('01'),
+      purpose: additional.get('08'),
+    };
+
+    return { success: true, payload: decoded };
+  }
+
+  /**
+   * Build a QR Ph payload that points at a Lapore-Finance account
+   * A fixed amount makes it a dynamic (single purpose) code
+   */
+  static encodeLaporeAccount(options: {
+    userId: string;
+    name: string;
+    amount?: number;
+    memo?: string;
+    reference?: string;
+  }): string {
+    const account = this.tlv('00', this.LAPORE_GUID) + this.tlv('01', options.userId);
+
+    let additional = '';
+    if (options.reference) additional += this.tlv('05', this.clean(options.reference, 25));
+    if (options.memo) additional += this.tlv('08', this.clean(options.memo, 25));
+
+    let payload =
+      this.tlv('00', '01') +
+      this.tlv('01', options.amount ? '12' : '11') +
+      this.tlv(this.LAPORE_ACCOUNT_TAG, account) +
+      this.tlv('52', this.P2P_MERCHANT_CATEGORY) +
+      this.tlv('53', this.PHP_CURRENCY) +
+      (options.amount ? this.tlv('54', options.amount.toFixed(2)) : '') +
+      this.tlv('58', 'PH') +
+      this.tlv('59', this.clean(options.name, 25) || 'Lapore User') +
+      this.tlv('60', 'Philippines') +
+      (additional ? this.tlv('62', additional) : '');
+
+    payload += '6304';
+    return payload + this.crc16(payload);
+  }
+
+  /**
+   * The Lapore account a payload points at, if any
+   */
+  static getLaporeUserId(payload: EmvcoPayload): string | null {
+    const account = payload.merchantAccounts.find(a => a.guid === this.LAPORE_GUID);
+    return account?.fields['01'] || null;
+  }
+
+  static isPeso(payload: EmvcoPayload): boolean {
+    return !payload.currency || payload.currency === this.PHP_CURRENCY;
+  }
+
+  /**
+   * Split a TLV string into fields; null when it is malformed
+   */
+  private static parseTLV(data: string): Map<string, string> | null {
+    const fields = new Map<string, string>();
+    let i = 0;
+
+    while (i < data.length) {
+      const tag = data.slice(i, i + 2);
+      const length = Number(data.slice(i + 2, i + 4));
+
+      if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(data.slice(i + 2, i + 4)) || i + 4 + length > data.length) {
+        return null;
+      }
+
+      fields.set(tag, data.slice(i + 4, i + 4 + length));
+      i += 4 + length;
+    }
+
+    return fields;
+  }
+
+  private static tlv(tag: string, value: string): string {
+    return `${tag}${String(value.length).padStart(2, '0')}${value}`;
+  }
+
+  // QR Ph fields are limited to the EMVCo alphanumeric set and short lengths
+  private static clean(value: string, maxLength: number): string {
+    return value.replace(/[^\x20-\x7E]/g, '').trim().slice(0, maxLength);
+  }
+
+  // CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF, as four uppercase hex digits
+  private static crc16(data: string): string {
+    let crc = 0xffff;
+    for (let i = 0; i < data.length; i++) {
+      crc ^= data.charCodeAt(i) << 8;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+      }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+  }
+}
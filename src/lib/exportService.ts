@@ -0,0 +1,280 @@
+import { LedgerService } from './ledgerService';
+import { TransactionService } from './transactionService';
+import { ExportFormat, LedgerPosting, TransactionHistoryItem } from '../context/types';
+
+/**
+ * ExportService turns transaction history into files for accounting tools
+ * Everything is generated in the browser; amounts are signed from the
+ * exporting user's perspective (money out is negative). Besides transfers,
+ * the history includes every other ledger movement of the PHP balance
+ * (crypto trades, order reserves and recurring buys)
+ */
+export class ExportService {
+
+  private static readonly PAGE_SIZE = 200;
+
+  private static readonly MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    ofx: 'application/x-ofx',
+    qif: 'application/qif',
+  };
+
+  // Who the user dealt with, by journal entry kind, for non-transfer movements
+  private static readonly LEDGER_COUNTERPARTIES: Record<string, string> = {
+    crypto_buy: 'Crypto desk',
+    crypto_sell: 'Crypto desk',
+    crypto_order_fill: 'Crypto desk',
+    crypto_recurring_buy: 'Crypto desk',
+    crypto_order_reserve: 'Order reserve',
+    crypto_order_release: 'Order reserve',
+  };
+
+  /**
+   * Load every transaction and ledger movement in the date range
+   * Dates are YYYY-MM-DD and inclusive
+   */
+  static async getTransactionsInRange(
+    userId: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<TransactionHistoryItem[]> {
+    const items: TransactionHistoryItem[] = [];
+    let page = await TransactionService.getTransactionHistory(userId, {
+      limit: this.PAGE_SIZE,
+      filters: { fromDate, toDate },
+    });
+    items.push(...page.items);
+
+    while (page.nextCursor) {
+      page = await TransactionService.getTransactionHistory(userId, {
+        limit: this.PAGE_SIZE,
+        cursor: page.nextCursor,
+        filters: { fromDate, toDate },
+      });
+      items.push(...page.items);
+    }
+
+    // Inclusive of the whole end day
+    const end = new Date(`${toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    const postings = await LedgerService.getMovementsInRange(userId, new Date(`${fromDate}T00:00:00`), end);
+    items.push(...postings.map(posting => this.fromLedgerPosting(posting, userId)));
+
+    // Accounting tools expect oldest first
+    return items.sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  /**
+   * Build the file contents for the chosen format
+   */
+  static build(
+    format: ExportFormat,
+    transactions: TransactionHistoryItem[],
+    options: { accountId: string; fromDate: string; toDate: string }
+  ): string {
+    switch (format) {
+      case 'csv':
+        return this.toCSV(transactions);
+      case 'ofx':
+        return this.toOFX(transactions, options.accountId, options.fromDate, options.toDate);
+      case 'qif':
+        return this.toQIF(transactions);
+    }
+  }
+
+  /**
+   * Trigger a browser download for generated content
+   */
+  static download(content: string, format: ExportFormat, fromDate: string, toDate: string): void {
+    const blob = new Blob([content], { type: this.MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lapore-activity_${fromDate}_${toDate}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    URL.revokeObjectURL(url);
+  }
+
+  static toCSV(transactions: TransactionHistoryItem[]): string {
+    const header = ['Date', 'Type', 'Counterparty', 'Username', 'Description', 'Amount', 'Fee', 'Currency', 'Transaction ID'];
+
+    const rows = transactions.map(tx => {
+      const counterparty = this.counterpartyOf(tx);
+      return [
+        new Date(tx.timestamp).toISOString(),
+        tx.type === 'send' ? 'Sent' : 'Received',
+        counterparty?.full_name || 'Unknown',
+        counterparty?.username ? `@${counterparty.username}` : '',
+        tx.description || '',
+        this.signedAmount(tx).toFixed(2),
+        (tx.type === 'send' ? tx.fee ?? 0 : 0).toFixed(2),
+        tx.currency,
+        tx.id,
+      ];
+    });
+
+    return [header, ...rows]
+      .map(row => row.map(value => this.escapeCSV(value)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * OFX 1.02 (SGML) bank statement, the variant most desktop tools import
+   */
+  static toOFX(
+    transactions: TransactionHistoryItem[],
+    accountId: string,
+    fromDate: string,
+    toDate: string
+  ): string {
+    const currency = transactions[0]?.currency || 'PHP';
+    const now = this.ofxDate(new Date());
+
+    const entries = transactions.map(tx => {
+      const counterparty = this.counterpartyOf(tx);
+      const lines = [
+        '<STMTTRN>',
+        `<TRNTYPE>${tx.type === 'send' ? 'DEBIT' : 'CREDIT'}`,
+        `<DTPOSTED>${this.ofxDate(new Date(tx.timestamp))}`,
+        `<TRNAMT>${this.signedAmount(tx).toFixed(2)}`,
+        `<FITID>${tx.id}`,
+        // NAME is limited to 32 characters by the spec
+        `<NAME>${this.escapeSGML((counterparty?.full_name || 'Unknown').slice(0, 32))}`,
+      ];
+      if (tx.description) {
+        lines.push(`<MEMO>${this.escapeSGML(tx.description)}`);
+      }
+      lines.push('</STMTTRN>');
+      return lines.join('\n');
+    });
+
+    return [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:USASCII',
+      'CHARSET:1252',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1>',
+      '<SONRS>',
+      '<STATUS>',
+      '<CODE>0',
+      '<SEVERITY>INFO',
+      '</STATUS>',
+      `<DTSERVER>${now}`,
+      '<LANGUAGE>ENG',
+      '</SONRS>',
+      '</SIGNONMSGSRSV1>',
+      '<BANKMSGSRSV1>',
+      '<STMTTRNRS>',
+      '<TRNUID>0',
+      '<STATUS>',
+      '<CODE>0',
+      '<SEVERITY>INFO',
+      '</STATUS>',
+      '<STMTRS>',
+      `<CURDEF>${currency}`,
+      '<BANKACCTFROM>',
+      '<BANKID>LAPORE',
+      `<ACCTID>${accountId}`,
+      '<ACCTTYPE>CHECKING',
+      '</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      `<DTSTART>${fromDate.replace(/-/g, '')}`,
+      `<DTEND>${toDate.replace(/-/g, '')}`,
+      ...entries,
+      '</BANKTRANLIST>',
+      '</STMTRS>',
+      '</STMTTRNRS>',
+      '</BANKMSGSRSV1>',
+      '</OFX>',
+      '',
+    ].join('\n');
+  }
+
+  static toQIF(transactions: TransactionHistoryItem[]): string {
+    const entries = transactions.map(tx => {
+      const date = new Date(tx.timestamp);
+      const counterparty = this.counterpartyOf(tx);
+      const lines = [
+        `D${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}/${date.getFullYear()}`,
+        `T${this.signedAmount(tx).toFixed(2)}`,
+        `P${counterparty?.full_name || 'Unknown'}`,
+      ];
+      if (tx.description) {
+        lines.push(`M${tx.description.replace(/\r?\n/g, ' ')}`);
+      }
+      lines.push(`N${tx.id}`, '^');
+      return lines.join('\n');
+    });
+
+    return ['!Type:Bank', ...entries, ''].join('\n');
+  }
+
+  private static fromLedgerPosting(posting: LedgerPosting, userId: string): TransactionHistoryItem {
+    const net = Number(posting.credit) - Number(posting.debit);
+    const kind = posting.entry?.kind ?? '';
+    const counterparty = {
+      full_name: this.LEDGER_COUNTERPARTIES[kind] || 'Lapore Finance',
+      username: '',
+    };
+
+    return {
+      id: posting.entry_id,
+      sender_id: userId,
+      receiver_id: userId,
+      amount: Math.abs(net),
+      currency: 'PHP',
+      type: net < 0 ? 'send' : 'receive',
+      timestamp: posting.created_at,
+      description: posting.entry?.memo || undefined,
+      sender: counterparty,
+      receiver: counterparty,
+      ledger_kind: kind,
+    };
+  }
+
+  private static counterpartyOf(tx: TransactionHistoryItem) {
+    return tx.type === 'send' ? tx.receiver : tx.sender;
+  }
+
+  // Sends include the fee so the amounts reconcile with the balance
+  private static signedAmount(tx: TransactionHistoryItem): number {
+    return tx.type === 'send' ? -(tx.amount + (tx.fee ?? 0)) : tx.amount;
+  }
+
+  // Text that a spreadsheet would read as a formula is prefixed with a quote;
+  // plain numbers such as negative amounts are left as they are
+  private static escapeCSV(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)
+      ? `'${value}`
+      : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private static escapeSGML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\r?\n/g, ' ');
+  }
+
+  // OFX timestamps are local time, YYYYMMDDHHMMSS
+  private static ofxDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+      `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  }
+}
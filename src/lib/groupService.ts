@@ -0,0 +1,374 @@
+import { supabase } from './supabase';
+import { TransactionService } from './transactionService';
+import {
+  ExpenseGroup,
+  GroupBalance,
+  GroupExpense,
+  GroupMember,
+  GroupSettlement,
+  GroupSummary,
+  SettlementSuggestion,
+  TransactionResult,
+} from '../context/types';
+
+/**
+ * GroupService handles split-bill groups
+ * Members log shared expenses; balances and the settlement plan are
+ * derived client-side and each settlement is paid via sendFunds
+ */
+export class GroupService {
+
+  private static readonly SELECT_WITH_MEMBERS = `
+    *,
+    expense_group_members(
+      profile_id,
+      profile:profiles(full_name, username)
+    )
+  `;
+
+  /**
+   * Create a group with the creator plus the given usernames or user IDs
+   */
+  static async createGroup(
+    creatorId: string,
+    name: string,
+    memberIdentifiers: string[]
+  ): Promise<{ success: boolean; group?: ExpenseGroup; error?: string }> {
+    try {
+      if (!name.trim()) {
+        return { success: false, error: 'Please enter a group name' };
+      }
+
+      const memberIds = new Set<string>([creatorId]);
+      for (const identifier of memberIdentifiers.map(i => i.trim()).filter(Boolean)) {
+        const profile = await TransactionService.getUserByIdentifier(identifier);
+        if (!profile) {
+          return { success: false, error: `User not found: ${identifier}` };
+        }
+        memberIds.add(profile.id);
+      }
+
+      const { data: group, error } = await supabase
+        .from('expense_groups')
+        .insert({ name: name.trim(), created_by: creatorId })
+        .select()
+        .single();
+
+      if (error || !group) {
+        console.error('Error creating group:', error);
+        return { success: false, error: 'Failed to create group' };
+      }
+
+      // Creator first so the membership policy lets them add the rest
+      const { error: creatorError } = await supabase
+        .from('expense_group_members')
+        .insert({ group_id: group.id, profile_id: creatorId });
+
+      const others = [...memberIds].filter(id => id !== creatorId);
+      const { error: membersError } = others.length > 0
+        ? await supabase
+            .from('expense_group_members')
+            .insert(others.map(profile_id => ({ group_id: group.id, profile_id })))
+        : { error: null };
+
+      if (creatorError || membersError) {
+        console.error('Error adding group members:', creatorError || membersError);
+        return { success: false, error: 'Group created but some members could not be added' };
+      }
+
+      const created = await this.getGroup(group.id);
+      return created ? { success: true, group: created } : { success: false, error: 'Failed to load group' };
+    } catch (error) {
+      console.error('Error creating group:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Get every group the user belongs to
+   */
+  static async getGroupsForUser(userId: string): Promise<ExpenseGroup[]> {
+    try {
+      const { data, error } = await supabase
+        .from('expense_groups')
+        .select(this.SELECT_WITH_MEMBERS)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching groups:', error);
+        return [];
+      }
+
+      return (data || [])
+        .map(g => this.toGroup(g))
+        .filter(g => g.members.some(m => m.profile_id === userId));
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+      return [];
+    }
+  }
+
+  static async getGroup(groupId: string): Promise<ExpenseGroup | null> {
+    const { data, error } = await supabase
+      .from('expense_groups')
+      .select(this.SELECT_WITH_MEMBERS)
+      .eq('id', groupId)
+      .single();
+
+    if (error || !data) return null;
+    return this.toGroup(data);
+  }
+
+  /**
+   * Add a member by username or user ID
+   */
+  static async addMember(groupId: string, identifier: string): Promise<{ success: boolean; error?: string }> {
+    const profile = await TransactionService.getUserByIdentifier(identifier.trim());
+    if (!profile) {
+      return { success: false, error: 'User not found. Please check the username or wallet address.' };
+    }
+
+    const { error } = await supabase
+      .from('expense_group_members')
+      .insert({ group_id: groupId, profile_id: profile.id });
+
+    if (error) {
+      console.error('Error adding member:', error);
+      return { success: false, error: error.code === '23505' ? 'Already a member' : 'Failed to add member' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Log an expense split evenly between the given members
+   */
+  static async addExpense(
+    groupId: string,
+    paidBy: string,
+    amount: number,
+    description: string,
+    participantIds: string[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (amount <= 0) {
+        return { success: false, error: 'Amount must be greater than zero' };
+      }
+
+      if (participantIds.length === 0) {
+        return { success: false, error: 'Select at least one member to split with' };
+      }
+
+      // The expense and its shares are written together server-side, which
+      // also checks membership and that the shares add up to the amount
+      const { data, error } = await supabase.rpc('add_group_expense', {
+        p_group_id: groupId,
+        p_paid_by: paidBy,
+        p_amount: Math.round(amount * 100) / 100,
+        p_description: description,
+        p_shares: this.splitEvenly(amount, participantIds),
+      });
+
+      if (error || !data) {
+        console.error('Error logging expense:', error);
+        return { success: false, error: 'Failed to log expense' };
+      }
+
+      if (!data.success) {
+        return { success: false, error: this.expenseErrorMessage(data.code) };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error logging expense:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Load expenses and settlements and derive balances for a group
+   */
+  static async getGroupSummary(group: ExpenseGroup): Promise<GroupSummary> {
+    const [{ data: expenseRows, error: expensesError }, { data: settlementRows, error: settlementsError }] = await Promise.all([
+      supabase
+        .from('group_expenses')
+        .select('*, shares:group_expense_shares(profile_id, amount)')
+        .eq('group_id', group.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('group_settlements')
+        .select('*')
+        .eq('group_id', group.id)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (expensesError) console.error('Error fetching group expenses:', expensesError);
+    if (settlementsError) console.error('Error fetching group settlements:', settlementsError);
+
+    const expenses: GroupExpense[] = expenseRows || [];
+    const settlements: GroupSettlement[] = settlementRows || [];
+    const balances = this.computeBalances(group.members, expenses, settlements);
+    const suggestions = this.suggestSettlements(balances);
+
+    return {
+      group,
+      expenses,
+      settlements,
+      balances,
+      suggestions,
+      settled: suggestions.length === 0,
+    };
+  }
+
+  /**
+   * Pay one suggested settlement and record it against the group
+   */
+  static async settle(
+    groupId: string,
+    suggestion: SettlementSuggestion,
+    groupName: string,
+    idempotencyKey: string
+  ): Promise<TransactionResult> {
+    const result = await TransactionService.sendFunds({
+      sender_id: suggestion.from_profile_id,
+      receiver_id: suggestion.to_profile_id,
+      amount: suggestion.amount,
+      currency: 'PHP',
+      description: `Settle up: ${groupName}`,
+      idempotency_key: idempotencyKey,
+    });
+
+    if (!result.success || !result.transaction) {
+      return result;
+    }
+
+    // A replayed key returns the original transaction, which may already
+    // be recorded; the unique transaction_id makes that insert a no-op
+    const { error } = await supabase
+      .from('group_settlements')
+      .upsert({
+        group_id: groupId,
+        from_profile_id: suggestion.from_profile_id,
+        to_profile_id: suggestion.to_profile_id,
+        amount: suggestion.amount,
+        transaction_id: result.transaction.id,
+      }, {
+        onConflict: 'transaction_id',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      console.error('Error recording settlement:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Net position per member, in pesos
+   * paid - owed + settlements paid out - settlements received
+   */
+  static computeBalances(
+    members: GroupMember[],
+    expenses: GroupExpense[],
+    settlements: GroupSettlement[]
+  ): GroupBalance[] {
+    // Work in centavos so rounding never leaves a phantom debt
+    const net = new Map<string, number>(members.map(m => [m.profile_id, 0]));
+    const add = (id: string, pesos: number) => net.set(id, (net.get(id) || 0) + Math.round(pesos * 100));
+
+    for (const expense of expenses) {
+      add(expense.paid_by, expense.amount);
+      for (const share of expense.shares || []) {
+        add(share.profile_id, -share.amount);
+      }
+    }
+
+    for (const settlement of settlements) {
+      add(settlement.from_profile_id, settlement.amount);
+      add(settlement.to_profile_id, -settlement.amount);
+    }
+
+    return [...net.entries()].map(([profile_id, cents]) => ({ profile_id, net: cents / 100 }));
+  }
+
+  /**
+   * Settlement plan: repeatedly match the largest debtor with the largest
+   * creditor. Produces at most n - 1 transfers for n members.
+   */
+  static suggestSettlements(balances: GroupBalance[]): SettlementSuggestion[] {
+    const creditors = balances
+      .map(b => ({ id: b.profile_id, cents: Math.round(b.net * 100) }))
+      .filter(b => b.cents > 0);
+    const debtors = balances
+      .map(b => ({ id: b.profile_id, cents: -Math.round(b.net * 100) }))
+      .filter(b => b.cents > 0);
+
+    const suggestions: SettlementSuggestion[] = [];
+
+    while (creditors.length > 0 && debtors.length > 0) {
+      creditors.sort((a, b) => b.cents - a.cents);
+      debtors.sort((a, b) => b.cents - a.cents);
+
+      const creditor = creditors[0];
+      const debtor = debtors[0];
+      const cents = Math.min(creditor.cents, debtor.cents);
+
+      suggestions.push({
+        from_profile_id: debtor.id,
+        to_profile_id: creditor.id,
+        amount: cents / 100,
+      });
+
+      creditor.cents -= cents;
+      debtor.cents -= cents;
+      if (creditor.cents === 0) creditors.shift();
+      if (debtor.cents === 0) debtors.shift();
+    }
+
+    return suggestions;
+  }
+
+  private static expenseErrorMessage(code: string): string {
+    switch (code) {
+      case 'UNAUTHORIZED':
+        return 'You are not a member of this group';
+      case 'PAYER_NOT_MEMBER':
+        return 'The payer is not a member of this group';
+      case 'INVALID_AMOUNT':
+        return 'Amount must be greater than zero';
+      case 'INVALID_SHARES':
+        return 'Split with members of this group only';
+      default:
+        return 'Failed to log expense';
+    }
+  }
+
+  /**
+   * Split an amount evenly; leftover centavos go to the first members
+   */
+  private static splitEvenly(amount: number, profileIds: string[]): { profile_id: string; amount: number }[] {
+    const totalCents = Math.round(amount * 100);
+    const base = Math.floor(totalCents / profileIds.length);
+    const remainder = totalCents - base * profileIds.length;
+
+    return profileIds.map((profile_id, index) => ({
+      profile_id,
+      amount: (base + (index < remainder ? 1 : 0)) / 100,
+    }));
+  }
+
+  private static toGroup(row: any): ExpenseGroup {
+    return {
+      id: row.id,
+      name: row.name,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      members: (row.expense_group_members || []).map((m: any) => ({
+        profile_id: m.profile_id,
+        full_name: m.profile?.full_name || 'Unknown User',
+        username: m.profile?.username || '',
+      })),
+    };
+  }
+}
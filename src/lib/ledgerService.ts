@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { LedgerPosting, LedgerDiscrepancy } from '../context/types';
+
+/**
+ * LedgerService reads the double-entry ledger behind Profile.balance
+ * Postings are only written server-side (transfer_funds and friends);
+ * this service exposes them to statements and exports and reconciles them
+ */
+export class LedgerService {
+
+  private static readonly PAGE_SIZE = 200;
+
+  /**
+   * Postings on a user's account that are not part of a transfer (crypto
+   * trades, order reserves, recurring buys), oldest first
+   * Transfers and their fees are already in the transactions table, and
+   * opening balances predate it, so both are left out. Throws on failure so
+   * statements and exports are never built from a partial history.
+   */
+  static async getMovementsInRange(userId: string, from: Date, to: Date): Promise<LedgerPosting[]> {
+    const { data: account, error: accountError } = await supabase
+      .from('ledger_accounts')
+      .select('id')
+      .eq('profile_id', userId)
+      .maybeSingle();
+
+    if (accountError) throw accountError;
+    if (!account) return []; // No balance change has been posted yet
+
+    const postings: LedgerPosting[] = [];
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('ledger_postings')
+        .select('*, entry:journal_entries!inner(kind, memo, transaction_id)')
+        .eq('account_id', account.id)
+        .is('entry.transaction_id', null)
+        .neq('entry.kind', 'opening_balance')
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) throw error;
+      postings.push(...(data || []));
+      if (!data || data.length < this.PAGE_SIZE) break;
+    }
+
+    return postings;
+  }
+
+  /**
+   * Compare stored balances with the ledger
+   * Returns only profiles that disagree. Pass a profile ID to check a single
+   * account; omitting it checks every profile and requires the service role.
+   */
+  static async reconcile(profileId?: string): Promise<LedgerDiscrepancy[]> {
+    const { data, error } = await supabase.rpc('reconcile_ledger', {
+      p_profile_id: profileId ?? null,
+    });
+
+    if (error) {
+      console.error('Error reconciling ledger:', error);
+      throw new Error('Failed to reconcile ledger');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Check whether a single profile's stored balance matches its ledger
+   */
+  static async isBalanced(profileId: string): Promise<boolean> {
+    const discrepancies = await this.reconcile(profileId);
+    return discrepancies.length === 0;
+  }
+}
@@ -0,0 +1,142 @@
+import { supabase } from './supabase';
+import { SwapService } from './swapService';
+import { TradeService } from './tradeService';
+import { CryptoService } from './cryptoService';
+import {
+  CryptoErrorCode,
+  CryptoOrder,
+  CryptoOrderRequest,
+  CryptoOrderResult,
+} from '../context/types';
+
+/**
+ * OrderService manages resting limit and stop-loss orders
+ * Orders reserve their funds when placed and are filled server-side by
+ * match_crypto_orders whenever the price feed crosses their trigger
+ */
+export class OrderService {
+
+  /**
+   * The user's orders, open ones first, then newest first
+   */
+  static async getOrders(userId: string, limit = 50): Promise<CryptoOrder[]> {
+    try {
+      const { data, error } = await supabase
+        .from('crypto_orders')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching crypto orders:', error);
+        return [];
+      }
+
+      const orders: CryptoOrder[] = data || [];
+      return [
+        ...orders.filter(o => o.status === 'open'),
+        ...orders.filter(o => o.status !== 'open'),
+      ];
+    } catch (error) {
+      console.error('Error fetching crypto orders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Place an order and reserve its funds; it may fill straight away if the
+   * market is already past the trigger
+   */
+  static async placeOrder(request: CryptoOrderRequest): Promise<CryptoOrderResult> {
+    try {
+      const { data, error } = await supabase.rpc('place_crypto_order', {
+        p_side: request.side,
+        p_order_type: request.order_type,
+        p_symbol: request.symbol,
+        p_amount: request.crypto_amount,
+        p_trigger_price: request.trigger_price,
+      });
+
+      if (error) {
+        console.error('Error placing crypto order:', error);
+        return { success: false, code: 'UNKNOWN', error: SwapService.errorMessage('UNKNOWN') };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return { success: false, code, error: TradeService.errorMessage(code, request.side, data.available) };
+      }
+
+      return { success: true, order: data.order };
+    } catch (error) {
+      console.error('Error placing crypto order:', error);
+      return { success: false, code: 'UNKNOWN', error: SwapService.errorMessage('UNKNOWN') };
+    }
+  }
+
+  /**
+   * Cancel an open order and release its reserve
+   */
+  static async cancelOrder(orderId: string): Promise<CryptoOrderResult> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_crypto_order', { p_order_id: orderId });
+
+      if (error) {
+        console.error('Error cancelling crypto order:', error);
+        return { success: false, code: 'UNKNOWN', error: SwapService.errorMessage('UNKNOWN') };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return { success: false, code, error: SwapService.errorMessage(code) };
+      }
+
+      return { success: true, order: data.order };
+    } catch (error) {
+      console.error('Error cancelling crypto order:', error);
+      return { success: false, code: 'UNKNOWN', error: SwapService.errorMessage('UNKNOWN') };
+    }
+  }
+
+  /**
+   * PHP per USD from the server's FX rates, or null if not yet recorded
+   */
+  static async getPhpPerUsd(): Promise<number | null> {
+    try {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('php_rate')
+        .eq('currency', 'USD')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching FX rate:', error);
+        return null;
+      }
+
+      return data?.php_rate != null ? Number(data.php_rate) : null;
+    } catch (error) {
+      console.error('Error fetching FX rate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Current prices in PHP per unit, for comparing against trigger prices
+   */
+  static async getMarketPrices(symbols: string[]): Promise<Record<string, number>> {
+    const [prices, phpPerUsd] = await Promise.all([
+      CryptoService.getCryptoPrices(symbols),
+      this.getPhpPerUsd(),
+    ]);
+
+    if (!phpPerUsd) return {};
+
+    const result: Record<string, number> = {};
+    prices.forEach((price, symbol) => {
+      result[symbol] = price.current_price_usd * phpPerUsd;
+    });
+    return result;
+  }
+}
@@ -0,0 +1,241 @@
+import { supabase } from './supabase';
+import { TransactionService } from './transactionService';
+import {
+  CreatePaymentRequest,
+  PaymentRequest,
+  PaymentRequestResult,
+  TransactionResult,
+} from '../context/types';
+
+/**
+ * PaymentRequestService handles "request money" flows
+ * A requester asks a specific user (or anyone with an open link) to pay
+ * them; approving a request runs the same transfer path as sendFunds
+ */
+export class PaymentRequestService {
+  private static readonly DEFAULT_EXPIRY_DAYS = 7;
+
+  private static readonly SELECT_WITH_PARTIES = `
+    *,
+    requester:profiles!payment_requests_requester_id_fkey(full_name, username),
+    payer:profiles!payment_requests_payer_id_fkey(full_name, username)
+  `;
+
+  /**
+   * Create a payment request
+   * Leave payer_identifier empty to create an open request link
+   */
+  static async createRequest(request: CreatePaymentRequest): Promise<PaymentRequestResult> {
+    const {
+      requester_id,
+      payer_identifier,
+      amount,
+      currency = 'PHP',
+      note,
+      expires_in_days = this.DEFAULT_EXPIRY_DAYS,
+    } = request;
+
+    try {
+      if (amount <= 0) {
+        return { success: false, error: 'Amount must be greater than zero' };
+      }
+
+      let payerId: string | null = null;
+
+      if (payer_identifier?.trim()) {
+        const payer = await TransactionService.getUserByIdentifier(payer_identifier.trim());
+
+        if (!payer) {
+          return { success: false, error: 'User not found. Please check the username or wallet address.' };
+        }
+
+        if (payer.id === requester_id) {
+          return { success: false, error: 'You cannot request funds from yourself' };
+        }
+
+        payerId = payer.id;
+      }
+
+      const expiresAt = new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data, error } = await supabase
+        .from('payment_requests')
+        .insert({
+          requester_id,
+          payer_id: payerId,
+          amount,
+          currency,
+          note: note?.trim() || null,
+          expires_at: expiresAt,
+        })
+        .select(this.SELECT_WITH_PARTIES)
+        .single();
+
+      if (error) {
+        console.error('Error creating payment request:', error);
+        return { success: false, error: 'Failed to create payment request' };
+      }
+
+      return { success: true, request: this.withEffectiveStatus(data) };
+    } catch (error) {
+      console.error('Error creating payment request:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Get pending requests addressed to a user
+   */
+  static async getIncomingRequests(userId: string): Promise<PaymentRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_requests')
+        .select(this.SELECT_WITH_PARTIES)
+        .eq('payer_id', userId)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching incoming requests:', error);
+        return [];
+      }
+
+      return (data || []).map(r => this.withEffectiveStatus(r));
+    } catch (error) {
+      console.error('Error fetching incoming requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every request a user sent or received, newest first
+   */
+  static async getRequestsForUser(userId: string, limit = 50): Promise<PaymentRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_requests')
+        .select(this.SELECT_WITH_PARTIES)
+        .or(`requester_id.eq.${userId},payer_id.eq.${userId},paid_by.eq.${userId}`)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching payment requests:', error);
+        return [];
+      }
+
+      return (data || []).map(r => this.withEffectiveStatus(r));
+    } catch (error) {
+      console.error('Error fetching payment requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a single request, e.g. when opening an open request link
+   * Open requests are not readable directly, so this goes through an RPC
+   * that serves a request only to its parties or whoever holds an open link
+   */
+  static async getRequestById(requestId: string): Promise<PaymentRequest | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_payment_request', {
+        p_request_id: requestId,
+      });
+
+      if (error || !data) return null;
+
+      return this.withEffectiveStatus(data);
+    } catch (error) {
+      console.error('Error fetching payment request:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pay a request from the signed-in user's balance
+   * The request is marked paid in the same database transaction as the
+   * transfer, so it can never be paid twice
+   */
+  static async approveRequest(requestId: string, idempotencyKey?: string): Promise<TransactionResult> {
+    try {
+      const { data, error } = await supabase.rpc('pay_payment_request', {
+        p_request_id: requestId,
+        p_idempotency_key: idempotencyKey ?? null,
+      });
+
+      if (error || !data) {
+        console.error('Error paying request:', error);
+        return { success: false, code: 'UNKNOWN', error: 'Failed to pay request' };
+      }
+
+      return TransactionService.toTransactionResult(data);
+    } catch (error) {
+      console.error('Error paying request:', error);
+      return { success: false, code: 'UNKNOWN', error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Decline a request addressed to the signed-in user
+   */
+  static async declineRequest(requestId: string): Promise<{ success: boolean; error?: string }> {
+    return this.closeRequest(requestId, 'declined');
+  }
+
+  /**
+   * Cancel a request the signed-in user created
+   */
+  static async cancelRequest(requestId: string): Promise<{ success: boolean; error?: string }> {
+    return this.closeRequest(requestId, 'cancelled');
+  }
+
+  /**
+   * Shareable link for an open request
+   */
+  static getRequestLink(requestId: string): string {
+    return `${window.location.origin}${window.location.pathname}#/request/${requestId}`;
+  }
+
+  private static async closeRequest(
+    requestId: string,
+    status: 'declined' | 'cancelled'
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('close_payment_request', {
+        p_request_id: requestId,
+        p_status: status,
+      });
+
+      if (error || !data) {
+        console.error('Error closing payment request:', error);
+        return { success: false, error: 'Failed to update request' };
+      }
+
+      if (!data.success) {
+        return {
+          success: false,
+          error: data.code === 'REQUEST_CLOSED'
+            ? 'This payment request is no longer pending'
+            : 'You cannot update this request',
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error closing payment request:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Pending requests past their expiry are reported as expired even if the
+   * database has not swept them yet
+   */
+  private static withEffectiveStatus(request: PaymentRequest): PaymentRequest {
+    if (request.status === 'pending' && new Date(request.expires_at).getTime() <= Date.now()) {
+      return { ...request, status: 'expired' };
+    }
+    return request;
+  }
+}
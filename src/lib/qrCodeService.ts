@@ -0,0 +1,140 @@
+import QRCode from 'qrcode';
+import { QRErrorCorrectionLevel, QRRenderOptions } from '../context/types';
+
+/**
+ * QRCodeService renders QR codes locally from the bundled encoder,
+ * so receive codes work offline and never depend on a CDN script
+ * The encoder only produces the module matrix; canvas and SVG output
+ * are drawn here so both can carry the embedded logo.
+ */
+export class QRCodeService {
+
+  private static readonly DEFAULTS: Required<QRRenderOptions> = {
+    size: 256,
+    errorCorrection: 'H',
+    margin: 4,
+    darkColor: '#000000',
+    lightColor: '#ffffff',
+    logo: false,
+  };
+
+  // Share of the symbol width the logo may cover. At Q/H this hides well
+  // under the ~25-30% of modules the error correction can recover.
+  private static readonly LOGO_RATIO = 0.22;
+  private static readonly LOGO_COLOR = '#3C3CFF';
+
+  /**
+   * Draw a QR code onto a new canvas
+   */
+  static toCanvas(data: string, options: QRRenderOptions = {}): HTMLCanvasElement {
+    const opts = { ...this.DEFAULTS, ...options };
+    const { modules, count } = this.encode(data, opts);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = opts.size;
+    canvas.height = opts.size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    const scale = opts.size / count;
+    ctx.fillStyle = opts.lightColor;
+    ctx.fillRect(0, 0, opts.size, opts.size);
+
+    // Snap module edges to whole pixels so neighbours do not leave hairline gaps
+    ctx.fillStyle = opts.darkColor;
+    modules.forEach(([x, y]) => {
+      const left = Math.floor(x * scale);
+      const top = Math.floor(y * scale);
+      ctx.fillRect(left, top, Math.ceil((x + 1) * scale) - left, Math.ceil((y + 1) * scale) - top);
+    });
+
+    if (opts.logo) {
+      const logoSize = opts.size * this.LOGO_RATIO;
+      const offset = (opts.size - logoSize) / 2;
+      const pad = logoSize * 0.12;
+
+      ctx.fillStyle = opts.lightColor;
+      this.roundRect(ctx, offset - pad, offset - pad, logoSize + pad * 2, logoSize + pad * 2, pad * 2);
+      ctx.fillStyle = this.LOGO_COLOR;
+      this.roundRect(ctx, offset, offset, logoSize, logoSize, logoSize * 0.2);
+
+      ctx.fillStyle = '#ffffff';
+      ctx.font = `bold ${Math.round(logoSize * 0.6)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('L', opts.size / 2, opts.size / 2);
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Render a QR code as an SVG document string
+   */
+  static toSvg(data: string, options: QRRenderOptions = {}): string {
+    const opts = { ...this.DEFAULTS, ...options };
+    const { modules, count } = this.encode(data, opts);
+
+    const path = modules.map(([x, y]) => `M${x} ${y}h1v1h-1z`).join('');
+
+    let logo = '';
+    if (opts.logo) {
+      const logoSize = count * this.LOGO_RATIO;
+      const offset = (count - logoSize) / 2;
+      const pad = logoSize * 0.12;
+      const centre = count / 2;
+
+      logo =
+        `<rect x="${offset - pad}" y="${offset - pad}" width="${logoSize + pad * 2}" height="${logoSize + pad * 2}" rx="${pad * 2}" fill="${opts.lightColor}"/>` +
+        `<rect x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}" rx="${logoSize * 0.2}" fill="${this.LOGO_COLOR}"/>` +
+        `<text x="${centre}" y="${centre}" fill="#ffffff" font-family="sans-serif" font-weight="bold" font-size="${logoSize * 0.6}" text-anchor="middle" dominant-baseline="central">L</text>`;
+    }
+
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${count} ${count}" width="${opts.size}" height="${opts.size}" shape-rendering="crispEdges">` +
+      `<rect width="${count}" height="${count}" fill="${opts.lightColor}"/>` +
+      `<path d="${path}" fill="${opts.darkColor}"/>` +
+      logo +
+      `</svg>`
+    );
+  }
+
+  /**
+   * Dark module coordinates (quiet zone included) and the symbol width in modules
+   */
+  private static encode(
+    data: string,
+    opts: Required<QRRenderOptions>
+  ): { modules: [number, number][]; count: number } {
+    const qr = QRCode.create(data, { errorCorrectionLevel: this.levelFor(opts) });
+    const size = qr.modules.size;
+    const modules: [number, number][] = [];
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (qr.modules.get(row, col)) modules.push([col + opts.margin, row + opts.margin]);
+      }
+    }
+
+    return { modules, count: size + opts.margin * 2 };
+  }
+
+  // The logo hides modules, so never pair it with the low recovery levels
+  private static levelFor(opts: Required<QRRenderOptions>): QRErrorCorrectionLevel {
+    if (opts.logo && (opts.errorCorrection === 'L' || opts.errorCorrection === 'M')) {
+      return 'Q';
+    }
+    return opts.errorCorrection;
+  }
+
+  private static roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number): void {
+    ctx.beginPath();
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + w, y, x + w, y + h, r);
+    ctx.arcTo(x + w, y + h, x, y + h, r);
+    ctx.arcTo(x, y + h, x, y, r);
+    ctx.arcTo(x, y, x + w, y, r);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
@@ -0,0 +1,249 @@
+import { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import { TransactionHistoryItem, TransactionReceipt } from '../context/types';
+
+/**
+ * ReceiptService builds shareable proof-of-payment receipts
+ * A receipt carries a link to #/receipt/:transactionId, which re-fetches
+ * the transaction server-side so the recipient can confirm it is genuine
+ */
+export class ReceiptService {
+
+  /**
+   * Human-friendly reference derived from the transaction id
+   */
+  static getReferenceNumber(transactionId: string): string {
+    return `LPR-${transactionId.replace(/-/g, '').slice(0, 12).toUpperCase()}`;
+  }
+
+  static getVerificationLink(transactionId: string): string {
+    return `${window.location.origin}${window.location.pathname}#/receipt/${transactionId}`;
+  }
+
+  static fromTransaction(tx: TransactionHistoryItem): TransactionReceipt {
+    return {
+      transaction_id: tx.id,
+      reference: this.getReferenceNumber(tx.id),
+      amount: tx.amount,
+      currency: tx.currency,
+      timestamp: tx.timestamp,
+      description: tx.description,
+      sender: {
+        full_name: tx.sender?.full_name || 'Unknown',
+        username: tx.sender?.username || '',
+      },
+      receiver: {
+        full_name: tx.receiver?.full_name || 'Unknown',
+        username: tx.receiver?.username || '',
+      },
+    };
+  }
+
+  /**
+   * Look a transaction up by id for the verification page
+   * Returns null when no such transaction exists
+   */
+  static async verifyTransaction(transactionId: string): Promise<TransactionReceipt | null> {
+    try {
+      const { data, error } = await supabase.rpc('verify_transaction', {
+        p_transaction_id: transactionId,
+      });
+
+      if (error) {
+        console.error('Error verifying transaction:', error);
+        return null;
+      }
+
+      if (!data?.found) {
+        return null;
+      }
+
+      return {
+        transaction_id: data.transaction_id,
+        reference: this.getReferenceNumber(data.transaction_id),
+        amount: Number(data.amount),
+        currency: data.currency,
+        timestamp: data.timestamp,
+        description: data.description ?? undefined,
+        sender: data.sender,
+        receiver: data.receiver,
+      };
+    } catch (error) {
+      console.error('Error verifying transaction:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Render the receipt as a PNG
+   */
+  static async toImage(receipt: TransactionReceipt): Promise<Blob> {
+    const width = 720;
+    const rows = this.rows(receipt);
+    const height = 360 + rows.length * 72;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas is not supported');
+    }
+
+    // Card
+    ctx.fillStyle = '#121212';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#1E1E1E';
+    ctx.fillRect(24, 24, width - 48, height - 48);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#3C3CFF';
+    ctx.font = 'bold 28px sans-serif';
+    ctx.fillText('Lapore Finance', width / 2, 90);
+
+    ctx.fillStyle = '#94A3B8';
+    ctx.font = '20px sans-serif';
+    ctx.fillText('Payment Receipt', width / 2, 124);
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = 'bold 56px sans-serif';
+    ctx.fillText(this.formatAmount(receipt), width / 2, 210);
+
+    // Detail rows
+    let y = 290;
+    ctx.textAlign = 'left';
+    for (const [label, value] of rows) {
+      ctx.fillStyle = '#64748B';
+      ctx.font = 'bold 16px sans-serif';
+      ctx.fillText(label.toUpperCase(), 64, y);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = '22px sans-serif';
+      ctx.fillText(this.fitText(ctx, value, width - 128), 64, y + 30);
+      y += 72;
+    }
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#64748B';
+    ctx.font = '16px sans-serif';
+    ctx.fillText('Verify this receipt at', width / 2, height - 80);
+    ctx.fillText(this.fitText(ctx, this.getVerificationLink(receipt.transaction_id), width - 96), width / 2, height - 56);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render receipt'))), 'image/png');
+    });
+  }
+
+  static async downloadImage(receipt: TransactionReceipt): Promise<void> {
+    const blob = await this.toImage(receipt);
+    this.saveBlob(blob, `${receipt.reference}.png`);
+  }
+
+  static downloadPdf(receipt: TransactionReceipt): void {
+    const doc = new jsPDF({ unit: 'pt', format: 'a5' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 36;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text('Lapore Finance', pageWidth / 2, 56, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.text('Payment Receipt', pageWidth / 2, 74, { align: 'center' });
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(24);
+    // Built-in fonts have no peso sign, so the PDF uses the currency code
+    doc.text(`${receipt.currency} ${receipt.amount.toFixed(2)}`, pageWidth / 2, 118, { align: 'center' });
+
+    let y = 160;
+    doc.setFontSize(10);
+    for (const [label, value] of this.rows(receipt)) {
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(120);
+      doc.text(label.toUpperCase(), margin, y);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0);
+      const lines: string[] = doc.splitTextToSize(value, pageWidth - margin * 2);
+      doc.text(lines, margin, y + 14);
+      y += 20 + lines.length * 12;
+    }
+
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text('Verify this receipt at', margin, y + 10);
+    doc.text(doc.splitTextToSize(this.getVerificationLink(receipt.transaction_id), pageWidth - margin * 2), margin, y + 22);
+
+    doc.save(`${receipt.reference}.pdf`);
+  }
+
+  /**
+   * Share via the Web Share API, attaching the image where supported
+   * Falls back to copying the verification link
+   * Returns how the receipt was shared
+   */
+  static async share(receipt: TransactionReceipt): Promise<'shared' | 'copied'> {
+    const url = this.getVerificationLink(receipt.transaction_id);
+    const text = `Payment of ${this.formatAmount(receipt)} from ${receipt.sender.full_name} to ${receipt.receiver.full_name} (Ref ${receipt.reference})`;
+
+    if (navigator.share) {
+      const file = new File([await this.toImage(receipt)], `${receipt.reference}.png`, { type: 'image/png' });
+      const withFile = { title: 'Lapore Finance Receipt', text, url, files: [file] };
+
+      await navigator.share(navigator.canShare?.(withFile) ? withFile : { title: 'Lapore Finance Receipt', text, url });
+      return 'shared';
+    }
+
+    await navigator.clipboard.writeText(`${text}\n${url}`);
+    return 'copied';
+  }
+
+  static formatAmount(receipt: TransactionReceipt): string {
+    return `${receipt.currency === 'PHP' ? '₱' : `${receipt.currency} `}${receipt.amount.toFixed(2)}`;
+  }
+
+  private static rows(receipt: TransactionReceipt): [string, string][] {
+    const party = (p: TransactionReceipt['sender']) => p.username ? `${p.full_name} (@${p.username})` : p.full_name;
+
+    const rows: [string, string][] = [
+      ['Reference No.', receipt.reference],
+      ['From', party(receipt.sender)],
+      ['To', party(receipt.receiver)],
+      ['Date & Time', new Date(receipt.timestamp).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+      })],
+    ];
+
+    if (receipt.description) {
+      rows.push(['Note', receipt.description]);
+    }
+
+    rows.push(['Transaction ID', receipt.transaction_id]);
+    return rows;
+  }
+
+  private static fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+
+    let trimmed = text;
+    while (trimmed.length > 0 && ctx.measureText(`${trimmed}…`).width > maxWidth) {
+      trimmed = trimmed.slice(0, -1);
+    }
+    return `${trimmed}…`;
+  }
+
+  private static saveBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+}
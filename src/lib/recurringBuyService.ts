@@ -0,0 +1,169 @@
+import { supabase } from './supabase';
+import {
+  RecurringBuy,
+  RecurringBuyRequest,
+  RecurringBuyRun,
+  RecurringBuyStatus,
+} from '../context/types';
+
+/**
+ * RecurringBuyService manages dollar-cost averaging plans
+ * Due plans are executed server-side by run_due_recurring_buys, which buys
+ * at the prevailing price against the user's PHP balance
+ */
+export class RecurringBuyService {
+
+  /**
+   * Create a plan; the first buy happens at start_at
+   */
+  static async createPlan(
+    request: RecurringBuyRequest
+  ): Promise<{ success: boolean; plan?: RecurringBuy; error?: string }> {
+    const { user_id, symbol, php_amount, frequency, start_at } = request;
+
+    try {
+      if (php_amount < 1) {
+        return { success: false, error: 'Amount must be at least ₱1.00' };
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_buys')
+        .insert({
+          user_id,
+          symbol,
+          php_amount,
+          frequency,
+          start_at,
+          next_run_at: start_at,
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        console.error('Error creating recurring buy:', error);
+        return { success: false, error: 'Failed to create recurring buy' };
+      }
+
+      return { success: true, plan: data };
+    } catch (error) {
+      console.error('Error creating recurring buy:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Get a user's plans, newest first; cancelled plans are left out
+   */
+  static async getPlans(userId: string): Promise<RecurringBuy[]> {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_buys')
+        .select('*')
+        .eq('user_id', userId)
+        .neq('status', 'cancelled')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching recurring buys:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recurring buys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the execution history of a plan, newest first
+   */
+  static async getRuns(planId: string, limit = 20): Promise<RecurringBuyRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_buy_runs')
+        .select('*')
+        .eq('plan_id', planId)
+        .order('executed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching recurring buy runs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recurring buy runs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Average USD paid per unit across every buy the plan has made, fees
+   * included, or null before its first buy
+   */
+  static averageEntryUsd(plan: RecurringBuy): number | null {
+    return plan.total_crypto_amount > 0 ? plan.total_cost_usd / plan.total_crypto_amount : null;
+  }
+
+  static async pausePlan(planId: string) {
+    return this.setStatus(planId, 'paused');
+  }
+
+  /**
+   * Resume a paused plan; buys missed while it was paused are skipped, so
+   * it next runs at its first future occurrence
+   */
+  static async resumePlan(planId: string) {
+    return this.setStatus(planId, 'active');
+  }
+
+  static async cancelPlan(planId: string) {
+    return this.setStatus(planId, 'cancelled');
+  }
+
+  /**
+   * Execute the signed-in user's due plans now
+   * Safe to call on every app load: each occurrence runs at most once
+   */
+  static async runDuePlans(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('run_due_recurring_buys', {
+        p_user_id: userId,
+      });
+
+      if (error) {
+        console.error('Error running recurring buys:', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      console.error('Error running recurring buys:', error);
+      return 0;
+    }
+  }
+
+  private static async setStatus(
+    planId: string,
+    status: RecurringBuyStatus
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('recurring_buys')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', planId);
+
+      if (error) {
+        console.error('Error updating recurring buy:', error);
+        return { success: false, error: 'Failed to update recurring buy' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating recurring buy:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+import {
+  ScheduledTransfer,
+  ScheduledTransferRequest,
+  ScheduledTransferRun,
+  ScheduledTransferStatus,
+  ScheduledTransferUpdate,
+} from '../context/types';
+
+/**
+ * ScheduledTransferService manages one-off and recurring transfers
+ * Due items are executed server-side by run_due_scheduled_transfers,
+ * which uses the same transfer path as TransactionService.sendFunds
+ */
+export class ScheduledTransferService {
+
+  private static readonly SELECT_WITH_RECEIVER = `
+    *,
+    receiver:profiles!scheduled_transfers_receiver_id_fkey(full_name, username)
+  `;
+
+  /**
+   * Create a scheduled transfer
+   */
+  static async createSchedule(
+    request: ScheduledTransferRequest
+  ): Promise<{ success: boolean; schedule?: ScheduledTransfer; error?: string }> {
+    const { sender_id, receiver_id, amount, currency = 'PHP', description, frequency, start_at } = request;
+
+    try {
+      if (amount <= 0) {
+        return { success: false, error: 'Amount must be greater than zero' };
+      }
+
+      if (sender_id === receiver_id) {
+        return { success: false, error: 'Cannot send funds to yourself' };
+      }
+
+      const { data, error } = await supabase
+        .from('scheduled_transfers')
+        .insert({
+          sender_id,
+          receiver_id,
+          amount,
+          currency,
+          description: description?.trim() || null,
+          frequency,
+          start_at,
+          next_run_at: start_at,
+        })
+        .select(this.SELECT_WITH_RECEIVER)
+        .single();
+
+      if (error) {
+        console.error('Error creating scheduled transfer:', error);
+        return { success: false, error: 'Failed to create scheduled transfer' };
+      }
+
+      return { success: true, schedule: data };
+    } catch (error) {
+      console.error('Error creating scheduled transfer:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+
+  /**
+   * Get a user's scheduled transfers, soonest first
+   */
+  static async getSchedules(userId: string): Promise<ScheduledTransfer[]> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_transfers')
+        .select(this.SELECT_WITH_RECEIVER)
+        .eq('sender_id', userId)
+        .order('next_run_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching scheduled transfers:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching scheduled transfers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the execution history of a schedule, newest first
+   */
+  static async getRuns(scheduleId: string, limit = 20): Promise<ScheduledTransferRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_transfer_runs')
+        .select('*')
+        .eq('schedule_id', scheduleId)
+        .order('executed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching schedule runs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching schedule runs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Edit amount, note, frequency or start date
+   * Changing the start date or frequency re-anchors the schedule server-side
+   * at its first future occurrence under the new timing
+   */
+  static async updateSchedule(
+    scheduleId: string,
+    updates: ScheduledTransferUpdate
+  ): Promise<{ success: boolean; error?: string }> {
+    if (updates.amount !== undefined && updates.amount <= 0) {
+      return { success: false, error: 'Amount must be greater than zero' };
+    }
+
+    const patch: Record<string, unknown> = {
+      ...updates,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updates.description !== undefined) {
+      patch.description = updates.description.trim() || null;
+    }
+
+    return this.patchSchedule(scheduleId, patch);
+  }
+
+  static async pauseSchedule(scheduleId: string) {
+    return this.setStatus(scheduleId, 'paused');
+  }
+
+  /**
+   * Resume a paused schedule; occurrences missed while it was paused are
+   * skipped, so it next runs at its first future occurrence
+   */
+  static async resumeSchedule(scheduleId: string) {
+    return this.setStatus(scheduleId, 'active');
+  }
+
+  static async cancelSchedule(scheduleId: string) {
+    return this.setStatus(scheduleId, 'cancelled');
+  }
+
+  /**
+   * Execute the signed-in user's due schedules now
+   * Safe to call on every app load: each occurrence carries a deterministic
+   * idempotency key, so it can never be paid twice
+   */
+  static async runDueSchedules(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('run_due_scheduled_transfers', {
+        p_sender_id: userId,
+      });
+
+      if (error) {
+        console.error('Error running scheduled transfers:', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      console.error('Error running scheduled transfers:', error);
+      return 0;
+    }
+  }
+
+  private static async setStatus(
+    scheduleId: string,
+    status: ScheduledTransferStatus
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.patchSchedule(scheduleId, {
+      status,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  private static async patchSchedule(
+    scheduleId: string,
+    patch: Record<string, unknown>
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('scheduled_transfers')
+        .update(patch)
+        .eq('id', scheduleId);
+
+      if (error) {
+        console.error('Error updating scheduled transfer:', error);
+        return { success: false, error: 'Failed to update scheduled transfer' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating scheduled transfer:', error);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }
+}
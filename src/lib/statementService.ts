@@ -0,0 +1,221 @@
+import { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import { ExportService } from './exportService';
+import { LedgerService } from './ledgerService';
+import { MonthlyStatement, Profile, StatementLine, TransactionHistoryItem } from '../context/types';
+
+/**
+ * StatementService builds monthly account statements
+ * Balances are reconstructed from transaction history and the other ledger
+ * movements (crypto trades, order reserves): the closing balance is the
+ * stored balance, read fresh when the statement is built, minus everything
+ * that happened after the period, so a statement always ties back to the
+ * live balance
+ */
+export class StatementService {
+
+  /**
+   * Build the statement for a calendar month (month is 1-12, local time)
+   */
+  static async getMonthlyStatement(profile: Profile, year: number, month: number): Promise<MonthlyStatement> {
+    const periodStart = new Date(year, month - 1, 1);
+    const nextPeriodStart = new Date(year, month, 1);
+    const periodEnd = new Date(year, month, 0);
+
+    if (periodStart > new Date()) {
+      throw new Error('Statements are only available for past and current months');
+    }
+
+    // The statement is rebuilt from the stored balance, so it must agree
+    // with the ledger before anything is derived from it
+    if (!(await LedgerService.isBalanced(profile.id))) {
+      throw new Error('Account balance does not match the ledger');
+    }
+
+    // The profile in memory may predate scheduled transfers, recurring buys
+    // or order fills that have run since, so read the balance now
+    const { data: latest, error: balanceError } = await supabase
+      .from('profiles')
+      .select('balance')
+      .eq('id', profile.id)
+      .single();
+
+    if (balanceError || !latest) {
+      throw balanceError || new Error('Profile not found');
+    }
+
+    // Everything from the start of the period up to now, oldest first
+    const transactions = await ExportService.getTransactionsInRange(
+      profile.id,
+      this.toDateString(periodStart),
+      this.toDateString(new Date())
+    );
+
+    // Work in centavos so the running balance never drifts
+    const toCents = (pesos: number) => Math.round(pesos * 100);
+    // Senders also paid the fee, so it is part of what left the balance
+    const signedCents = (tx: TransactionHistoryItem) =>
+      tx.type === 'send' ? -toCents(tx.amount + (tx.fee ?? 0)) : toCents(tx.amount);
+
+    const inPeriod = transactions.filter(tx => new Date(tx.timestamp) < nextPeriodStart);
+    const afterPeriod = transactions.filter(tx => new Date(tx.timestamp) >= nextPeriodStart);
+
+    const closingCents = afterPeriod.reduce(
+      (balance, tx) => balance - signedCents(tx),
+      toCents(Number(latest.balance))
+    );
+    const openingCents = inPeriod.reduce(
+      (balance, tx) => balance - signedCents(tx),
+      closingCents
+    );
+
+    let runningCents = openingCents;
+    let sentCents = 0;
+    let receivedCents = 0;
+
+    const lines: StatementLine[] = inPeriod.map(tx => {
+      const cents = signedCents(tx);
+      runningCents += cents;
+      if (cents < 0) sentCents -= cents;
+      else receivedCents += cents;
+
+      return {
+        transaction: tx,
+        amount: cents / 100,
+        running_balance: runningCents / 100,
+      };
+    });
+
+    return {
+      profile_id: profile.id,
+      period_start: this.toDateString(periodStart),
+      period_end: this.toDateString(periodEnd),
+      opening_balance: openingCents / 100,
+      closing_balance: closingCents / 100,
+      total_sent: sentCents / 100,
+      total_received: receivedCents / 100,
+      lines,
+    };
+  }
+
+  /**
+   * Render a statement to PDF and download it
+   */
+  static downloadPdf(statement: MonthlyStatement, profile: Profile): void {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 40;
+    const right = pageWidth - margin;
+
+    // Built-in fonts have no peso sign, so amounts use the currency code
+    const money = (value: number) =>
+      `${value < 0 ? '-' : ''}PHP ${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    const periodLabel = new Date(`${statement.period_start}T00:00:00`)
+      .toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+    // Header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text('Lapore Finance', margin, 50);
+    doc.setFontSize(12);
+    doc.text('Account Statement', right, 50, { align: 'right' });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`${profile.full_name} (@${profile.username})`, margin, 72);
+    doc.text(`Account ${profile.id}`, margin, 86);
+    doc.text(periodLabel, right, 72, { align: 'right' });
+    doc.text(`${statement.period_start} to ${statement.period_end}`, right, 86, { align: 'right' });
+
+    // Summary
+    let y = 116;
+    const summary: [string, number][] = [
+      ['Opening balance', statement.opening_balance],
+      ['Total received', statement.total_received],
+      ['Total sent', -statement.total_sent],
+      ['Closing balance', statement.closing_balance],
+    ];
+
+    doc.setDrawColor(200);
+    doc.line(margin, y - 12, right, y - 12);
+    summary.forEach(([label, value], index) => {
+      doc.setFont('helvetica', index === summary.length - 1 ? 'bold' : 'normal');
+      doc.text(label, margin, y);
+      doc.text(money(value), right, y, { align: 'right' });
+      y += 16;
+    });
+    doc.line(margin, y - 8, right, y - 8);
+
+    // Transaction table
+    const columns = {
+      date: margin,
+      details: margin + 70,
+      amount: right - 100,
+      balance: right,
+    };
+
+    const drawTableHeader = () => {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9);
+      doc.text('Date', columns.date, y);
+      doc.text('Details', columns.details, y);
+      doc.text('Amount', columns.amount, y, { align: 'right' });
+      doc.text('Balance', columns.balance, y, { align: 'right' });
+      doc.line(margin, y + 4, right, y + 4);
+      doc.setFont('helvetica', 'normal');
+      y += 18;
+    };
+
+    y += 20;
+    drawTableHeader();
+
+    if (statement.lines.length === 0) {
+      doc.text('No transactions in this period', margin, y);
+      y += 14;
+    }
+
+    const detailsWidth = columns.amount - columns.details - 70;
+
+    statement.lines.forEach(line => {
+      const tx = line.transaction;
+      const counterparty = tx.type === 'send' ? tx.receiver : tx.sender;
+      const label = `${tx.type === 'send' ? 'To' : 'From'} ${counterparty?.full_name || 'Unknown'}`;
+      const details: string[] = doc.splitTextToSize(
+        tx.description ? `${label} - ${tx.description}` : label,
+        detailsWidth
+      );
+      const rowHeight = details.length * 11 + 4;
+
+      if (y + rowHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin + 10;
+        drawTableHeader();
+      }
+
+      doc.text(new Date(tx.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }), columns.date, y);
+      doc.text(details, columns.details, y);
+      doc.text(money(line.amount), columns.amount, y, { align: 'right' });
+      doc.text(money(line.running_balance), columns.balance, y, { align: 'right' });
+      y += rowHeight;
+    });
+
+    // Footer on every page
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFontSize(8);
+      doc.setTextColor(130);
+      doc.text(`Generated ${new Date().toLocaleString('en-US')}`, margin, pageHeight - 20);
+      doc.text(`Page ${page} of ${pageCount}`, right, pageHeight - 20, { align: 'right' });
+    }
+
+    doc.save(`lapore-statement_${statement.period_start.slice(0, 7)}.pdf`);
+  }
+
+  private static toDateString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
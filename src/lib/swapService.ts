@@ -0,0 +1,144 @@
+import { supabase } from './supabase';
+import {
+  CryptoErrorCode,
+  CryptoTransactionResult,
+  SwapQuoteResult,
+} from '../context/types';
+
+/**
+ * SwapService trades one crypto holding for another
+ * Quotes are priced server-side from crypto_prices and executed by
+ * execute_swap, which moves both legs and records the swap atomically
+ */
+export class SwapService {
+
+  /**
+   * The user's holdings as symbol -> amount
+   */
+  static async getBalances(userId: string): Promise<Record<string, number>> {
+    try {
+      const { data, error } = await supabase
+        .from('crypto_assets')
+        .select('symbol, amount')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching crypto balances:', error);
+        return {};
+      }
+
+      return Object.fromEntries((data || []).map(a => [a.symbol, Number(a.amount)]));
+    } catch (error) {
+      console.error('Error fetching crypto balances:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Price a swap of fromAmount; the quote is valid for 15 seconds and
+   * will not fill for less than its amount minus slippagePercent
+   */
+  static async getQuote(
+    fromSymbol: string,
+    toSymbol: string,
+    fromAmount: number,
+    slippagePercent: number
+  ): Promise<SwapQuoteResult> {
+    try {
+      const { data, error } = await supabase.rpc('create_swap_quote', {
+        p_from_symbol: fromSymbol,
+        p_to_symbol: toSymbol,
+        p_from_amount: fromAmount,
+        p_slippage_percent: slippagePercent,
+      });
+
+      if (error) {
+        console.error('Error creating swap quote:', error);
+        return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN') };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return { success: false, code, error: this.errorMessage(code, data.available) };
+      }
+
+      return { success: true, quote: data.quote };
+    } catch (error) {
+      console.error('Error creating swap quote:', error);
+      return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN') };
+    }
+  }
+
+  /**
+   * Execute a quote at the live price
+   * Fails with PRICE_CHANGED (and the repriced amount) if the price moved
+   * past the quote's slippage tolerance
+   */
+  static async executeSwap(quoteId: string): Promise<CryptoTransactionResult> {
+    try {
+      const { data, error } = await supabase.rpc('execute_swap', { p_quote_id: quoteId });
+
+      if (error) {
+        console.error('Error executing swap:', error);
+        return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN') };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return {
+          success: false,
+          code,
+          error: this.errorMessage(code, data.available),
+          repriced_amount: data.to_amount,
+        };
+      }
+
+      return { success: true, transaction: data.transaction };
+    } catch (error) {
+      console.error('Error executing swap:', error);
+      return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN') };
+    }
+  }
+
+  /**
+   * Map a trading failure code to a user-facing message
+   */
+  static errorMessage(code: CryptoErrorCode, available?: number): string {
+    switch (code) {
+      case 'UNAUTHORIZED':
+        return 'Please sign in again to trade';
+      case 'INVALID_AMOUNT':
+        return 'Amount is too small to trade';
+      case 'SAME_ASSET':
+        return 'Choose two different assets';
+      case 'UNSUPPORTED_ASSET':
+        return 'This asset cannot be traded yet';
+      case 'PRICE_UNAVAILABLE':
+        return 'Live prices are unavailable right now. Please try again shortly.';
+      case 'INSUFFICIENT_FUNDS':
+        return `Insufficient balance. Available: ${Number(available ?? 0)}`;
+      case 'QUOTE_NOT_FOUND':
+        return 'Quote not found. Please request a new one.';
+      case 'QUOTE_USED':
+        return 'This quote has already been used';
+      case 'QUOTE_EXPIRED':
+        return 'The quote expired. Please request a new one.';
+      case 'INVALID_SLIPPAGE':
+        return 'Slippage tolerance must be between 0% and 50%';
+      case 'PRICE_CHANGED':
+        return 'The price moved beyond your slippage tolerance';
+      case 'INVALID_SIDE':
+        return 'Choose whether to buy or sell';
+      case 'INVALID_ORDER_TYPE':
+        return 'Stop orders can only sell';
+      case 'INVALID_PRICE':
+        return 'Enter a trigger price above zero';
+      case 'ORDER_NOT_FOUND':
+        return 'Order not found';
+      case 'ORDER_CLOSED':
+        return 'This order has already filled or been cancelled';
+      default:
+        return 'An unexpected error occurred. Please try again.';
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { supabase } from './supabase';
+import { SwapService } from './swapService';
+import {
+  CryptoErrorCode,
+  CryptoPrice,
+  CryptoTransaction,
+  CryptoTransactionResult,
+  TradeQuoteResult,
+  TradeSide,
+} from '../context/types';
+
+/**
+ * TradeService buys and sells crypto with the PHP wallet balance
+ * Quotes are priced server-side from crypto_prices and fx_rates, and
+ * execute_trade settles the PHP and crypto legs in one transaction
+ */
+export class TradeService {
+
+  /**
+   * Assets that can be bought or sold, from the server price list
+   */
+  static async getTradableAssets(): Promise<Pick<CryptoPrice, 'symbol' | 'name'>[]> {
+    try {
+      const { data, error } = await supabase
+        .from('crypto_prices')
+        .select('symbol, name')
+        .order('symbol');
+
+      if (error) {
+        console.error('Error fetching tradable assets:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching tradable assets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Price a trade; on a buy amount is the PHP to spend (fee included), on a
+   * sell it is the units to sell. The quote is valid for 15 seconds
+   */
+  static async getQuote(side: TradeSide, symbol: string, amount: number): Promise<TradeQuoteResult> {
+    try {
+      const { data, error } = await supabase.rpc('create_trade_quote', {
+        p_side: side,
+        p_symbol: symbol,
+        p_amount: amount,
+      });
+
+      if (error) {
+        console.error('Error creating trade quote:', error);
+        return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN', side) };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return { success: false, code, error: this.errorMessage(code, side, data.available) };
+      }
+
+      return { success: true, quote: data.quote };
+    } catch (error) {
+      console.error('Error creating trade quote:', error);
+      return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN', side) };
+    }
+  }
+
+  /**
+   * Execute a quote at its quoted amounts
+   */
+  static async executeTrade(quoteId: string, side: TradeSide): Promise<CryptoTransactionResult> {
+    try {
+      const { data, error } = await supabase.rpc('execute_trade', { p_quote_id: quoteId });
+
+      if (error) {
+        console.error('Error executing trade:', error);
+        return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN', side) };
+      }
+
+      if (!data.success) {
+        const code: CryptoErrorCode = data.code || 'UNKNOWN';
+        return { success: false, code, error: this.errorMessage(code, side, data.available) };
+      }
+
+      return { success: true, transaction: data.transaction };
+    } catch (error) {
+      console.error('Error executing trade:', error);
+      return { success: false, code: 'UNKNOWN', error: this.errorMessage('UNKNOWN', side) };
+    }
+  }
+
+  /**
+   * The user's recent buys, sells and swaps, newest first
+   */
+  static async getCryptoTransactions(userId: string, limit = 20): Promise<CryptoTransaction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('crypto_transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching crypto transactions:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching crypto transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Trading failure message; a short buy is reported in pesos
+   */
+  static errorMessage(code: CryptoErrorCode, side: TradeSide, available?: number): string {
+    if (code === 'INSUFFICIENT_FUNDS' && side === 'buy') {
+      return `Insufficient balance. Available: ₱${Number(available ?? 0).toFixed(2)}`;
+    }
+    return SwapService.errorMessage(code, available);
+  }
+}
@@ -1,5 +1,21 @@
 import { supabase } from './supabase';
-import { TransactionRequest, TransactionResult, Profile } from '../context/types';
+import { EmvcoService } from './emvcoService';
+import {
+  TransactionRequest,
+  TransactionResult,
+  TransactionErrorCode,
+  TransactionHistoryItem,
+  TransactionHistoryOptions,
+  TransactionPage,
+  Profile,
+  RecipientProfile,
+  TransferLimits,
+  TransferLimitKind,
+  TransferFeeQuote,
+  PaymentQRPayload,
+  QRErrorCode,
+  QRParseResult,
+} from '../context/types';
 
 /**
  * TransactionService handles all transaction operations
@@ -9,114 +25,149 @@ export class TransactionService {
   
   /**
    * Send funds from one user to another
-   * This performs atomic operations to ensure data consistency:
-   * 1. Validate sender has sufficient balance
-   * 2. Verify receiver exists
-   * 3. Create transaction record (single record)
-   * 4. Update both balances
+   * The transfer runs server-side in the transfer_funds procedure, which
+   * locks both profiles, validates the balance, writes the transaction
+   * record and posts a balanced journal entry (debit sender, credit
+   * receiver) in a single database transaction. The ledger postings are
+   * what move Profile.balance.
+   * Requests carrying an idempotency_key that was already used return the
+   * original transaction instead of transferring again.
    */
   static async sendFunds(request: TransactionRequest): Promise<TransactionResult> {
-    const { sender_id, receiver_id, amount, currency = 'PHP', description } = request;
+    const { sender_id, receiver_id, amount, currency = 'PHP', description, idempotency_key } = request;
 
     try {
-      // Validation: Amount must be positive
-      if (amount <= 0) {
-        return { success: false, error: 'Amount must be greater than zero' };
-      }
+      const { data, error } = await supabase.rpc('transfer_funds', {
+        p_sender_id: sender_id,
+        p_receiver_id: receiver_id,
+        p_amount: amount,
+        p_currency: currency,
+        p_description: description ?? null,
+        p_idempotency_key: idempotency_key ?? null,
+      });
 
-      // Validation: Cannot send to yourself
-      if (sender_id === receiver_id) {
-        return { success: false, error: 'Cannot send funds to yourself' };
+      if (error || !data) {
+        console.error('Error executing transfer:', error);
+        return { success: false, code: 'UNKNOWN', error: 'Failed to complete transfer' };
       }
 
-      // Step 1: Get sender profile and validate balance
-      const { data: senderProfile, error: senderError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', sender_id)
-        .single();
+      return this.toTransactionResult(data);
 
-      if (senderError || !senderProfile) {
-        return { success: false, error: 'Sender account not found' };
-      }
+    } catch (error) {
+      console.error('Transaction error:', error);
+      return { 
+        success: false, 
+        code: 'UNKNOWN',
+        error: 'An unexpected error occurred. Please try again.' 
+      };
+    }
+  }
 
-      if (senderProfile.balance < amount) {
-        return { 
-          success: false, 
-          error: `Insufficient balance. Available: ₱${senderProfile.balance.toFixed(2)}` 
-        };
-      }
+  /**
+   * Convert a transfer procedure response ({ success, code, transaction })
+   * into a TransactionResult from the sender's perspective
+   */
+  static toTransactionResult(data: any): TransactionResult {
+    if (!data.success) {
+      const code: TransactionErrorCode = data.code || 'UNKNOWN';
+      return { success: false, code, error: this.transferErrorMessage(code, data) };
+    }
 
-      // Step 2: Verify receiver exists
-      const { data: receiverProfile, error: receiverError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', receiver_id)
-        .single();
+    return {
+      success: true,
+      transaction: {
+        ...data.transaction,
+        type: 'send',
+      },
+    };
+  }
 
-      if (receiverError || !receiverProfile) {
-        return { success: false, error: 'Receiver account not found' };
+  /**
+   * Map a transfer failure code to a user-facing message
+   */
+  private static transferErrorMessage(
+    code: TransactionErrorCode,
+    details: { available?: number; fee?: number; limit?: TransferLimitKind; remaining?: number } = {}
+  ): string {
+    switch (code) {
+      case 'UNAUTHORIZED':
+        return 'You are not allowed to send from this account';
+      case 'INVALID_AMOUNT':
+        return 'Amount must be greater than zero';
+      case 'SELF_TRANSFER':
+        return 'Cannot send funds to yourself';
+      case 'SENDER_NOT_FOUND':
+        return 'Sender account not found';
+      case 'RECEIVER_NOT_FOUND':
+        return 'Receiver account not found';
+      case 'INSUFFICIENT_FUNDS':
+        return details.fee
+          ? `Insufficient balance to cover the amount and ₱${Number(details.fee).toFixed(2)} fee. Available: ₱${Number(details.available ?? 0).toFixed(2)}`
+          : `Insufficient balance. Available: ₱${Number(details.available ?? 0).toFixed(2)}`;
+      case 'REQUEST_NOT_FOUND':
+        return 'Payment request not found';
+      case 'REQUEST_EXPIRED':
+        return 'This payment request has expired';
+      case 'REQUEST_CLOSED':
+        return 'This payment request is no longer pending';
+      case 'LIMIT_EXCEEDED': {
+        const remaining = `₱${Number(details.remaining ?? 0).toFixed(2)}`;
+        if (details.limit === 'per_transaction') return `Amount exceeds the per-transfer limit of ${remaining}`;
+        if (details.limit === 'monthly') return `This exceeds your monthly transfer limit. Remaining this month: ${remaining}`;
+        return `This exceeds your daily transfer limit. Remaining today: ${remaining}`;
       }
+      case 'UNSUPPORTED_CURRENCY':
+        return 'Only PHP transfers are supported';
+      default:
+        return 'An unexpected error occurred. Please try again.';
+    }
+  }
 
-      // Step 3: Create single transaction record
-      const timestamp = new Date().toISOString();
-      
-      const { data: transaction, error: txError } = await supabase
-        .from('transactions')
-        .insert({
-          sender_id,
-          receiver_id,
-          amount,
-          currency,
-          timestamp,
-          description: description || `Transfer from ${senderProfile.full_name} to ${receiverProfile.full_name}`,
-        })
-        .select()
-        .single();
+  /**
+   * The signed-in user's transfer limits and how much is left today and this month
+   */
+  static async getTransferLimits(): Promise<TransferLimits | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_transfer_limits');
 
-      if (txError) {
-        console.error('Error creating transaction:', txError);
-        return { success: false, error: 'Failed to create transaction record' };
+      if (error) {
+        console.error('Error fetching transfer limits:', error);
+        return null;
       }
 
-      // Step 4: Update sender balance (deduct)
-      const { error: senderUpdateError } = await supabase
-        .from('profiles')
-        .update({ balance: senderProfile.balance - amount })
-        .eq('id', sender_id);
-
-      if (senderUpdateError) {
-        console.error('Error updating sender balance:', senderUpdateError);
-        return { success: false, error: 'Failed to update sender balance' };
-      }
+      return data;
+    } catch (error) {
+      console.error('Error fetching transfer limits:', error);
+      return null;
+    }
+  }
 
-      // Step 5: Update receiver balance (add)
-      const { error: receiverUpdateError } = await supabase
-        .from('profiles')
-        .update({ balance: receiverProfile.balance + amount })
-        .eq('id', receiver_id);
+  /**
+   * The fee the schedule would charge on a transfer, and the total the
+   * sender pays. The server recalculates it when the transfer runs.
+   */
+  static async quoteTransferFee(amount: number, currency = 'PHP'): Promise<TransferFeeQuote | null> {
+    try {
+      const { data, error } = await supabase.rpc('calculate_transfer_fee', {
+        p_amount: amount,
+        p_currency: currency,
+      });
 
-      if (receiverUpdateError) {
-        console.error('Error updating receiver balance:', receiverUpdateError);
-        return { success: false, error: 'Failed to update receiver balance' };
+      if (error) {
+        console.error('Error calculating transfer fee:', error);
+        return null;
       }
 
-      // Success! Return the transaction
+      const fee = Number(data?.fee ?? 0);
       return {
-        success: true,
-        transaction: {
-          ...transaction,
-          sender_name: senderProfile.full_name,
-          receiver_name: receiverProfile.full_name,
-        },
+        amount,
+        fee,
+        total: Math.round((amount + fee) * 100) / 100,
+        rule_name: data?.rule_name,
       };
-
     } catch (error) {
-      console.error('Transaction error:', error);
-      return { 
-        success: false, 
-        error: 'An unexpected error occurred. Please try again.' 
-      };
+      console.error('Error calculating transfer fee:', error);
+      return null;
     }
   }
 
@@ -156,67 +207,333 @@ export class TransactionService {
   }
 
   /**
-   * Get transaction history for a user
-   * Returns transactions with type calculated based on user's perspective
+   * Autocomplete for the recipient field: usernames starting with, or
+   * names containing, the typed text
    */
-  static async getTransactionHistory(userId: string, limit = 50): Promise<any[]> {
+  static async searchUsers(query: string, excludeId: string, limit = 5): Promise<RecipientProfile[]> {
+    // Characters that would break out of the PostgREST filter or act as wildcards
+    const term = query.trim().replace(/^@/, '').replace(/[%_,()"\\]/g, '');
+    if (term.length < 2) return [];
+
     try {
       const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, username')
+        .or(`username.ilike.${term}%,full_name.ilike.%${term}%`)
+        .neq('id', excludeId)
+        .order('username')
+        .limit(limit);
+
+      if (error) {
+        console.error('Error searching users:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error searching users:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get one page of transaction history for a user
+   * Uses keyset pagination on (timestamp, id), newest first. Pass the
+   * previous page's nextCursor to load older activity; nextCursor is null
+   * once the end of the history is reached. Optional filters are applied
+   * server-side before paging.
+   * Returns transactions with type calculated based on user's perspective
+   */
+  static async getTransactionHistory(
+    userId: string,
+    options: TransactionHistoryOptions = {}
+  ): Promise<TransactionPage> {
+    const { limit = 50, cursor, filters = {} } = options;
+
+    try {
+      let query = supabase
         .from('transactions')
         .select(`
           *,
           sender:profiles!transactions_sender_id_fkey(full_name, username),
           receiver:profiles!transactions_receiver_id_fkey(full_name, username)
         `)
-        .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+        .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`);
+
+      if (filters.direction === 'send') {
+        query = query.eq('sender_id', userId);
+      } else if (filters.direction === 'receive') {
+        query = query.eq('receiver_id', userId);
+      }
+
+      if (filters.counterparty?.trim()) {
+        const counterpartyIds = await this.findCounterpartyIds(filters.counterparty, userId);
+        if (counterpartyIds.length === 0) {
+          return { items: [], nextCursor: null };
+        }
+        const ids = counterpartyIds.join(',');
+        query = query.or(`sender_id.in.(${ids}),receiver_id.in.(${ids})`);
+      }
+
+      if (filters.minAmount !== undefined) {
+        query = query.gte('amount', filters.minAmount);
+      }
+
+      if (filters.maxAmount !== undefined) {
+        query = query.lte('amount', filters.maxAmount);
+      }
+
+      if (filters.fromDate) {
+        query = query.gte('timestamp', new Date(`${filters.fromDate}T00:00:00`).toISOString());
+      }
+
+      if (filters.toDate) {
+        // Inclusive of the whole end day
+        const end = new Date(`${filters.toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('timestamp', end.toISOString());
+      }
+
+      if (filters.currency) {
+        query = query.eq('currency', filters.currency);
+      }
+
+      if (filters.search?.trim()) {
+        query = query.ilike('description', `%${filters.search.trim()}%`);
+      }
+
+      if (cursor) {
+        // Strictly older than the last row seen; id breaks timestamp ties
+        query = query.or(
+          `timestamp.lt."${cursor.timestamp}",and(timestamp.eq."${cursor.timestamp}",id.lt.${cursor.id})`
+        );
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const { data, error } = await query
         .order('timestamp', { ascending: false })
-        .limit(limit);
+        .order('id', { ascending: false })
+        .limit(limit + 1);
 
       if (error) {
         console.error('Error fetching transactions:', error);
-        return [];
+        return { items: [], nextCursor: null };
       }
 
+      const rows = data || [];
+      const hasMore = rows.length > limit;
+
       // Calculate transaction type based on user's perspective
-      const withTypes = (data || []).map(tx => ({
+      const items: TransactionHistoryItem[] = rows.slice(0, limit).map(tx => ({
         ...tx,
         type: tx.sender_id === userId ? 'send' : 'receive'
       }));
 
-      return withTypes;
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        nextCursor: hasMore && last ? { timestamp: last.timestamp, id: last.id } : null,
+      };
     } catch (error) {
       console.error('Error fetching transaction history:', error);
-      return [];
+      return { items: [], nextCursor: null };
     }
   }
 
   /**
-   * Generate QR code data for receiving funds
+   * IDs of other users whose username contains the given text
    */
-  static generateReceiveQRData(userId: string, username?: string): string {
-    return JSON.stringify({
-      type: 'lapore-finance-transfer',
-      userId,
-      username,
-      timestamp: Date.now(),
-    });
+  private static async findCounterpartyIds(username: string, userId: string): Promise<string[]> {
+    const term = username.trim().replace(/^@/, '');
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .ilike('username', `%${term}%`)
+      .neq('id', userId)
+      .limit(50);
+
+    if (error) {
+      console.error('Error searching counterparties:', error);
+      return [];
+    }
+
+    return (data || []).map(p => p.id);
   }
 
   /**
-   * Parse QR code data for sending funds
+   * Generate a signed QR payload for receiving funds
+   * The signed-in user is always the receiver; the server signs the
+   * optional amount and memo together with an expiry (default 24 hours)
    */
-  static parseQRData(qrData: string): { userId: string; username?: string } | null {
+  static async generateReceiveQRData(
+    options: { amount?: number; memo?: string; ttlSeconds?: number } = {}
+  ): Promise<{ qrData: string; expiresAt: string } | null> {
     try {
-      const parsed = JSON.parse(qrData);
-      if (parsed.type === 'lapore-finance-transfer' && parsed.userId) {
-        return {
-          userId: parsed.userId,
-          username: parsed.username,
-        };
+      const { data, error } = await supabase.rpc('sign_payment_qr', {
+        p_amount: options.amount ?? null,
+        p_memo: options.memo ?? null,
+        p_ttl_seconds: options.ttlSeconds ?? 86400,
+      });
+
+      if (error || !data) {
+        console.error('Error signing QR payload:', error);
+        return null;
       }
+
+      const payload = data as PaymentQRPayload;
+      return {
+        qrData: JSON.stringify(payload),
+        expiresAt: new Date(payload.exp * 1000).toISOString(),
+      };
+    } catch (error) {
+      console.error('Error signing QR payload:', error);
       return null;
+    }
+  }
+
+  /**
+   * Shareable link (#/pay/:recipient) that opens the send flow pre-filled
+   * after sign-in. Like a typed-in username, nothing here is trusted: the
+   * payer still sees and confirms the resolved recipient and amount.
+   */
+  static getPaymentLink(recipient: string, amount?: number, description?: string): string {
+    const params = new URLSearchParams();
+    if (amount && amount > 0) params.set('amount', amount.toFixed(2));
+    if (description?.trim()) params.set('note', description.trim());
+
+    const query = params.toString();
+    return `${window.location.origin}${window.location.pathname}#/pay/${encodeURIComponent(recipient)}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Parse and verify scanned QR code data for sending funds
+   * Accepts signed Lapore-Finance JSON codes and EMVCo (QR Ph) codes.
+   * Rejects malformed, unsigned (v1), expired and tampered codes; the
+   * signature is checked server-side
+   */
+  static async parseQRData(qrData: string): Promise<QRParseResult> {
+    if (EmvcoService.isEmvco(qrData)) {
+      return this.parseEmvcoQRData(qrData);
+    }
+
+    let payload: PaymentQRPayload;
+    try {
+      payload = JSON.parse(qrData);
     } catch {
-      return null;
+      return this.qrFailure('INVALID_FORMAT');
+    }
+
+    if (payload?.type !== 'lapore-finance-transfer') {
+      return this.qrFailure('INVALID_FORMAT');
+    }
+
+    if (payload.v !== 2) {
+      return this.qrFailure('UNSUPPORTED_VERSION');
+    }
+
+    if (!payload.userId || !payload.sig || typeof payload.exp !== 'number') {
+      return this.qrFailure('INVALID_FORMAT');
+    }
+
+    // Cheap local check first; the server re-checks against its own clock
+    if (payload.exp * 1000 <= Date.now()) {
+      return this.qrFailure('QR_EXPIRED');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('verify_payment_qr', { p_payload: payload });
+
+      if (error || !data) {
+        console.error('Error verifying QR payload:', error);
+        return this.qrFailure('VERIFICATION_FAILED');
+      }
+
+      if (!data.valid) {
+        return this.qrFailure(data.code || 'INVALID_SIGNATURE');
+      }
+    } catch (error) {
+      console.error('Error verifying QR payload:', error);
+      return this.qrFailure('VERIFICATION_FAILED');
+    }
+
+    return {
+      success: true,
+      payment: {
+        format: 'lapore',
+        userId: payload.userId,
+        username: payload.username,
+        amount: payload.amount,
+        memo: payload.memo,
+        expiresAt: new Date(payload.exp * 1000).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * QR Ph codes carry no signature; the CRC guards against misreads and
+   * the recipient is re-resolved by id before any money moves. Only codes
+   * pointing at a Lapore-Finance account can be paid.
+   */
+  private static parseEmvcoQRData(qrData: string): QRParseResult {
+    const decoded = EmvcoService.decode(qrData);
+    if (!decoded.success || !decoded.payload) {
+      return this.qrFailure(decoded.code || 'INVALID_FORMAT');
+    }
+
+    const emvco = decoded.payload;
+
+    if (!EmvcoService.isPeso(emvco)) {
+      return this.qrFailure('UNSUPPORTED_CURRENCY');
+    }
+
+    const userId = EmvcoService.getLaporeUserId(emvco);
+    if (!userId) {
+      const failure = this.qrFailure('UNSUPPORTED_NETWORK');
+      return emvco.merchantName
+        ? { ...failure, error: `${emvco.merchantName} uses another QR Ph provider. ${failure.error}` }
+        : failure;
+    }
+
+    return {
+      success: true,
+      payment: {
+        format: 'qrph',
+        userId,
+        amount: emvco.amount,
+        memo: emvco.purpose,
+        merchantName: emvco.merchantName,
+        reference: emvco.reference,
+      },
+    };
+  }
+
+  private static qrFailure(code: QRErrorCode): QRParseResult {
+    return { success: false, code, error: this.qrErrorMessage(code) };
+  }
+
+  /**
+   * Map a QR rejection code to a user-facing message
+   */
+  private static qrErrorMessage(code: QRErrorCode): string {
+    switch (code) {
+      case 'INVALID_FORMAT':
+        return 'Invalid QR code. Please scan a valid Lapore-Finance QR code.';
+      case 'UNSUPPORTED_VERSION':
+        return 'This QR code uses an old format. Ask the recipient to show a new one.';
+      case 'QR_EXPIRED':
+        return 'This QR code has expired. Ask the recipient to show a new one.';
+      case 'INVALID_SIGNATURE':
+        return 'This QR code has been altered and cannot be trusted.';
+      case 'INVALID_CHECKSUM':
+        return 'This QR Ph code is damaged or was misread. Please scan it again.';
+      case 'UNSUPPORTED_CURRENCY':
+        return 'Only peso (PHP) QR codes are supported.';
+      case 'UNSUPPORTED_NETWORK':
+        return 'Paying other banks and e-wallets is not supported yet.';
+      default:
+        return 'Could not verify this QR code. Please check your connection and try again.';
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { TransactionFilters } from '../context/types';
+
+interface ActivityFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+}
+
+// URL search param names for each filter
+const PARAM_KEYS: Record<keyof TransactionFilters, string> = {
+  direction: 'direction',
+  counterparty: 'from_user',
+  minAmount: 'min',
+  maxAmount: 'max',
+  fromDate: 'from',
+  toDate: 'to',
+  currency: 'currency',
+  search: 'q',
+};
+
+/**
+ * Read filters from URL search params so a filtered view can be bookmarked
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): TransactionFilters => {
+  const filters: TransactionFilters = {};
+
+  const direction = params.get(PARAM_KEYS.direction);
+  if (direction === 'send' || direction === 'receive') filters.direction = direction;
+
+  const min = parseFloat(params.get(PARAM_KEYS.minAmount) || '');
+  if (!isNaN(min)) filters.minAmount = min;
+
+  const max = parseFloat(params.get(PARAM_KEYS.maxAmount) || '');
+  if (!isNaN(max)) filters.maxAmount = max;
+
+  const counterparty = params.get(PARAM_KEYS.counterparty);
+  if (counterparty) filters.counterparty = counterparty;
+
+  const fromDate = params.get(PARAM_KEYS.fromDate);
+  if (fromDate) filters.fromDate = fromDate;
+
+  const toDate = params.get(PARAM_KEYS.toDate);
+  if (toDate) filters.toDate = toDate;
+
+  const currency = params.get(PARAM_KEYS.currency);
+  if (currency) filters.currency = currency;
+
+  const search = params.get(PARAM_KEYS.search);
+  if (search) filters.search = search;
+
+  return filters;
+};
+
+/**
+ * Write filters into URL search params, dropping empty values
+ */
+export const filtersToSearchParams = (filters: TransactionFilters, base: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+
+  (Object.keys(PARAM_KEYS) as (keyof TransactionFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === undefined || value === '') {
+      params.delete(PARAM_KEYS[key]);
+    } else {
+      params.set(PARAM_KEYS[key], String(value));
+    }
+  });
+
+  return params;
+};
+
+export const hasActiveFilters = (filters: TransactionFilters) =>
+  Object.values(filters).some(value => value !== undefined && value !== '');
+
+const ActivityFilterBar: React.FC<ActivityFilterBarProps> = ({ filters, onChange }) => {
+  const [search, setSearch] = useState(filters.search || '');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // Advanced filters are edited as a draft and applied together
+  const [counterparty, setCounterparty] = useState(filters.counterparty || '');
+  const [minAmount, setMinAmount] = useState(filters.minAmount?.toString() || '');
+  const [maxAmount, setMaxAmount] = useState(filters.maxAmount?.toString() || '');
+  const [fromDate, setFromDate] = useState(filters.fromDate || '');
+  const [toDate, setToDate] = useState(filters.toDate || '');
+  const [currency, setCurrency] = useState(filters.currency || '');
+
+  // Debounce free-text search so typing does not refetch on every key
+  useEffect(() => {
+    if ((filters.search || '') === search) return;
+
+    const timeout = setTimeout(() => {
+      onChange({ ...filters, search: search.trim() || undefined });
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const handleApply = () => {
+    const min = parseFloat(minAmount);
+    const max = parseFloat(maxAmount);
+
+    onChange({
+      ...filters,
+      counterparty: counterparty.trim() || undefined,
+      minAmount: isNaN(min) ? undefined : min,
+      maxAmount: isNaN(max) ? undefined : max,
+      fromDate: fromDate || undefined,
+      toDate: toDate || undefined,
+      currency: currency || undefined,
+    });
+    setShowAdvanced(false);
+  };
+
+  const handleClear = () => {
+    setSearch('');
+    setCounterparty('');
+    setMinAmount('');
+    setMaxAmount('');
+    setFromDate('');
+    setToDate('');
+    setCurrency('');
+    onChange({});
+  };
+
+  const advancedCount = [
+    filters.counterparty,
+    filters.minAmount,
+    filters.maxAmount,
+    filters.fromDate,
+    filters.toDate,
+    filters.currency,
+  ].filter(value => value !== undefined && value !== '').length;
+
+  const inputClass = 'w-full bg-darkbg border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors';
+
+  return (
+    <div className="space-y-3">
+      {/* Search + advanced toggle */}
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search notes..."
+            className="w-full bg-cardbg border border-white/5 rounded-xl pl-9 pr-4 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+          />
+        </div>
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className={`relative p-2 rounded-xl border transition-colors ${
+            showAdvanced || advancedCount > 0
+              ? 'bg-ethblue/20 border-ethblue/30 text-ethblue'
+              : 'bg-cardbg border-white/5 text-slate-400 hover:bg-white/5'
+          }`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {advancedCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-4 h-4 bg-ethblue text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+              {advancedCount}
+            </span>
+          )}
+        </button>
+      </div>
+
+      {/* Direction chips */}
+      <div className="flex items-center gap-2">
+        {([undefined, 'send', 'receive'] as const).map((direction) => (
+          <button
+            key={direction || 'all'}
+            onClick={() => onChange({ ...filters, direction })}
+            className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${
+              filters.direction === direction
+                ? 'bg-ethblue text-white'
+                : 'bg-white/5 text-slate-400 hover:bg-white/10'
+            }`}
+          >
+            {direction === 'send' ? 'Sent' : direction === 'receive' ? 'Received' : 'All'}
+          </button>
+        ))}
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={handleClear}
+            className="ml-auto flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-white transition-colors"
+          >
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Advanced filters */}
+      {showAdvanced && (
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-3 animate-in slide-in-from-top">
+          <input
+            type="text"
+            value={counterparty}
+            onChange={(e) => setCounterparty(e.target.value)}
+            placeholder="@username"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              placeholder="Min ₱"
+              min="0"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              placeholder="Max ₱"
+              min="0"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Any currency</option>
+            <option value="PHP">PHP</option>
+            <option value="USD">USD</option>
+          </select>
+          <button
+            onClick={handleApply}
+            className="w-full bg-ethblue hover:bg-ethblue/90 text-white text-sm font-bold py-2 rounded-xl transition-colors"
+          >
+            Apply Filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFilterBar;
@@ -1,7 +1,15 @@
-import React, { useEffect, useState } from 'react';
-import { ArrowUpRight, ArrowDownLeft, Loader2, RefreshCw, X, User, Calendar, Hash } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ArrowUpRight, ArrowDownLeft, Loader2, RefreshCw, X, User, Calendar, Hash, HandCoins, Download, Receipt, Repeat } from 'lucide-react';
 import { TransactionService } from '../lib/transactionService';
-import { Profile } from '../../src/context/types';
+import { PaymentRequestService } from '../lib/paymentRequestService';
+import { TradeService } from '../lib/tradeService';
+import ExportTransactionsModal from './ExportTransactionsModal';
+import ReceiptModal from './ReceiptModal';
+import ContactSaveForm from './ContactSaveForm';
+import { ReceiptService } from '../lib/receiptService';
+import ActivityFilterBar, { filtersFromSearchParams, filtersToSearchParams, hasActiveFilters } from './ActivityFilterBar';
+import { Profile, PaymentRequest, CryptoTransaction, TransactionHistoryItem, TransactionCursor, TransactionFilters, TransactionReceipt } from '../../src/context/types';
 
 interface ActivityTabProps {
   userId: string;
@@ -9,30 +17,41 @@ interface ActivityTabProps {
   onRefresh?: () => void;
 }
 
-interface TransactionItem {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  amount: number;
-  currency: string;
-  type: 'send' | 'receive';
-  timestamp: string;
-  description?: string;
-  sender?: { full_name: string; username: string };
-  receiver?: { full_name: string; username: string };
-}
+const PAGE_SIZE = 20;
 
 const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefresh }) => {
-  const [transactions, setTransactions] = useState<TransactionItem[]>([]);
+  const [transactions, setTransactions] = useState<TransactionHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedTransaction, setSelectedTransaction] = useState<TransactionItem | null>(null);
+  const [selectedTransaction, setSelectedTransaction] = useState<TransactionHistoryItem | null>(null);
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [cryptoTransactions, setCryptoTransactions] = useState<CryptoTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<TransactionCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped by every fetch, so responses for filters no longer shown are dropped
+  const fetchIdRef = useRef(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [receipt, setReceipt] = useState<TransactionReceipt | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filterKey = searchParams.toString();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [filterKey]);
+  const filtered = hasActiveFilters(filters);
 
   useEffect(() => {
     fetchTransactions();
-  }, [userId]);
+  }, [userId, filterKey]);
+
+  const handleFiltersChange = (next: TransactionFilters) => {
+    const params = filtersToSearchParams(next, searchParams);
+    params.set('tab', 'activity');
+    setSearchParams(params, { replace: true });
+  };
 
   const fetchTransactions = async (isRefresh = false) => {
+    const fetchId = ++fetchIdRef.current;
+
     if (isRefresh) {
       setRefreshing(true);
     } else {
@@ -40,16 +59,65 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
     }
 
     try {
-      const data = await TransactionService.getTransactionHistory(userId);
-      setTransactions(data);
+      const [page, requestData, cryptoData] = await Promise.all([
+        TransactionService.getTransactionHistory(userId, { limit: PAGE_SIZE, filters }),
+        PaymentRequestService.getRequestsForUser(userId),
+        TradeService.getCryptoTransactions(userId),
+      ]);
+      if (fetchId !== fetchIdRef.current) return;
+
+      setTransactions(page.items);
+      setNextCursor(page.nextCursor);
+      setRequests(requestData);
+      setCryptoTransactions(cryptoData);
     } catch (error) {
       console.error('Error fetching transactions:', error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (fetchId === fetchIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const fetchId = fetchIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await TransactionService.getTransactionHistory(userId, {
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        filters,
+      });
+      if (fetchId !== fetchIdRef.current) return;
+
+      setTransactions(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, loading]);
+
   const handleRefresh = () => {
     fetchTransactions(true);
     if (onRefresh) onRefresh();
@@ -78,6 +146,23 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
     }
   };
 
+  const handleCancelRequest = async (requestId: string) => {
+    const result = await PaymentRequestService.cancelRequest(requestId);
+    if (result.success) {
+      setRequests(prev => prev.map(r => r.id === requestId ? { ...r, status: 'cancelled' } : r));
+    } else {
+      console.error('Error cancelling request:', result.error);
+    }
+  };
+
+  const requestStatusStyles: Record<PaymentRequest['status'], string> = {
+    pending: 'bg-yellow-500/10 text-yellow-400',
+    paid: 'bg-green-500/10 text-green-400',
+    declined: 'bg-red-500/10 text-red-400',
+    cancelled: 'bg-white/5 text-slate-500',
+    expired: 'bg-white/5 text-slate-500',
+  };
+
   const formatFullDate = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', { 
@@ -91,29 +176,6 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
     });
   };
 
-  if (loading) {
-    return (
-      <div className="flex flex-col items-center justify-center py-12 space-y-4">
-        <Loader2 className="w-8 h-8 text-ethblue animate-spin" />
-        <p className="text-slate-500 text-sm">Loading activity...</p>
-      </div>
-    );
-  }
-
-  if (transactions.length === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center py-12 space-y-4 opacity-60">
-        <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center">
-          <ArrowUpRight className="w-8 h-8 text-slate-700" />
-        </div>
-        <div className="text-center">
-          <p className="text-slate-500 text-sm font-medium">No transactions yet</p>
-          <p className="text-slate-600 text-xs mt-1">Your transaction history will appear here</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-4 pb-24">
       {/* Header with refresh */}
@@ -121,74 +183,226 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
         <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">
           Recent Activity
         </h3>
-        <button
-          onClick={handleRefresh}
-          disabled={refreshing}
-          className={`p-2 rounded-full hover:bg-white/5 transition-colors ${refreshing ? 'animate-spin' : ''}`}
-        >
-          <RefreshCw className="w-4 h-4 text-slate-500" />
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setExportOpen(true)}
+            className="p-2 rounded-full hover:bg-white/5 transition-colors"
+          >
+            <Download className="w-4 h-4 text-slate-500" />
+          </button>
+          <button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            className={`p-2 rounded-full hover:bg-white/5 transition-colors ${refreshing ? 'animate-spin' : ''}`}
+          >
+            <RefreshCw className="w-4 h-4 text-slate-500" />
+          </button>
+        </div>
       </div>
 
-      {/* Transaction List */}
-      <div className="space-y-2">
-        {transactions.map((tx) => {
-          const isSent = tx.type === 'send';
-          const displayAmount = isSent ? -tx.amount : tx.amount;
-
-          return (
-            <button
-              key={tx.id}
-              onClick={() => setSelectedTransaction(tx)}
-              className="w-full bg-cardbg border border-white/5 rounded-2xl p-4 hover:border-white/10 transition-all group text-left"
-            >
-              <div className="flex items-center gap-4">
-                {/* Icon */}
-                <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
-                  isSent 
-                    ? 'bg-red-500/10 group-hover:bg-red-500/20' 
-                    : 'bg-green-500/10 group-hover:bg-green-500/20'
-                } transition-colors`}>
-                  {isSent ? (
-                    <ArrowUpRight className="w-6 h-6 text-red-400" />
-                  ) : (
-                    <ArrowDownLeft className="w-6 h-6 text-green-400" />
-                  )}
-                </div>
+      <ActivityFilterBar filters={filters} onChange={handleFiltersChange} />
 
-                {/* Details */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between gap-2">
-                    <div className="min-w-0">
-                      <h4 className="text-white font-bold text-sm truncate">
-                        {isSent ? 'Sent' : 'Received'}
-                      </h4>
-                      <p className="text-slate-500 text-xs mt-0.5">
-                        {formatDate(tx.timestamp)}
-                      </p>
+      {loading ? (
+        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+          <Loader2 className="w-8 h-8 text-ethblue animate-spin" />
+          <p className="text-slate-500 text-sm">Loading activity...</p>
+        </div>
+      ) : transactions.length === 0 && (filtered || (requests.length === 0 && cryptoTransactions.length === 0)) ? (
+        <div className="flex flex-col items-center justify-center py-12 space-y-4 opacity-60">
+          <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center">
+            <ArrowUpRight className="w-8 h-8 text-slate-700" />
+          </div>
+          <div className="text-center">
+            <p className="text-slate-500 text-sm font-medium">
+              {filtered ? 'No matching transactions' : 'No transactions yet'}
+            </p>
+            <p className="text-slate-600 text-xs mt-1">
+              {filtered ? 'Try adjusting or clearing your filters' : 'Your transaction history will appear here'}
+            </p>
+          </div>
+        </div>
+      ) : null}
+
+      {/* Payment Requests (hidden while filtering transactions) */}
+      {!loading && !filtered && requests.length > 0 && (
+        <div className="space-y-2">
+          {requests.map((request) => {
+            const isOutgoing = request.requester_id === userId;
+            const counterparty = isOutgoing ? request.payer : request.requester;
+
+            return (
+              <div
+                key={request.id}
+                className="w-full bg-cardbg border border-white/5 rounded-2xl p-4"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-full flex items-center justify-center bg-ethblue/10">
+                    <HandCoins className="w-6 h-6 text-ethblue" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h4 className="text-white font-bold text-sm truncate">
+                          {isOutgoing
+                            ? `Requested from ${counterparty?.full_name || 'anyone with link'}`
+                            : `Request from ${counterparty?.full_name || 'Unknown User'}`}
+                        </h4>
+                        <p className="text-slate-500 text-xs mt-0.5 truncate">
+                          {request.note || formatDate(request.created_at)}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="font-bold text-sm text-white">
+                          ₱{request.amount.toFixed(2)}
+                        </p>
+                        <span className={`inline-block text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full mt-0.5 ${requestStatusStyles[request.status]}`}>
+                          {request.status}
+                        </span>
+                      </div>
                     </div>
-                    <div className="text-right flex-shrink-0">
-                      <p className={`font-bold text-sm ${
-                        isSent ? 'text-red-400' : 'text-green-400'
-                      }`}>
-                        {displayAmount > 0 ? '+' : ''}₱{Math.abs(displayAmount).toFixed(2)}
-                      </p>
-                      <p className="text-slate-600 text-xs mt-0.5">
-                        Tap for details
-                      </p>
+                    {isOutgoing && request.status === 'pending' && (
+                      <button
+                        onClick={() => handleCancelRequest(request.id)}
+                        className="text-xs font-bold text-slate-500 hover:text-red-400 transition-colors mt-2"
+                      >
+                        Cancel request
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Crypto buys, sells and swaps (hidden while filtering transactions) */}
+      {!loading && !filtered && cryptoTransactions.length > 0 && (
+        <div className="space-y-2">
+          {cryptoTransactions.map((ctx) => {
+            const title = ctx.kind === 'buy'
+              ? `Bought ${ctx.to_symbol}${ctx.order_id ? ' (order filled)' : ctx.recurring_buy_id ? ' (recurring)' : ''}`
+              : ctx.kind === 'sell'
+                ? `Sold ${ctx.from_symbol}${ctx.order_id ? ' (order filled)' : ''}`
+                : `Swapped ${ctx.from_symbol} to ${ctx.to_symbol}`;
+
+            return (
+              <div
+                key={ctx.id}
+                className="w-full bg-cardbg border border-white/5 rounded-2xl p-4"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-full flex items-center justify-center bg-ethblue/10">
+                    <Repeat className="w-6 h-6 text-ethblue" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h4 className="text-white font-bold text-sm truncate">{title}</h4>
+                        <p className="text-slate-500 text-xs mt-0.5 truncate">
+                          {formatDate(ctx.created_at)}
+                          {ctx.fee_symbol === 'PHP' && ctx.fee_amount > 0 && ` · ₱${Number(ctx.fee_amount).toFixed(2)} fee`}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="font-bold text-sm text-green-400">
+                          +{ctx.to_symbol === 'PHP' ? `₱${Number(ctx.to_amount).toFixed(2)}` : `${ctx.to_amount} ${ctx.to_symbol}`}
+                        </p>
+                        <p className="text-slate-500 text-xs mt-0.5">
+                          -{ctx.from_symbol === 'PHP' ? `₱${Number(ctx.from_amount).toFixed(2)}` : `${ctx.from_amount} ${ctx.from_symbol}`}
+                        </p>
+                      </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </button>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!loading && (
+        <>
+          {/* Transaction List */}
+          <div className="space-y-2">
+            {transactions.map((tx) => {
+              const isSent = tx.type === 'send';
+              const displayAmount = isSent ? -tx.amount : tx.amount;
+
+              return (
+                <button
+                  key={tx.id}
+                  onClick={() => setSelectedTransaction(tx)}
+                  className="w-full bg-cardbg border border-white/5 rounded-2xl p-4 hover:border-white/10 transition-all group text-left"
+                >
+                  <div className="flex items-center gap-4">
+                    {/* Icon */}
+                    <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
+                      isSent 
+                        ? 'bg-red-500/10 group-hover:bg-red-500/20' 
+                        : 'bg-green-500/10 group-hover:bg-green-500/20'
+                    } transition-colors`}>
+                      {isSent ? (
+                        <ArrowUpRight className="w-6 h-6 text-red-400" />
+                      ) : (
+                        <ArrowDownLeft className="w-6 h-6 text-green-400" />
+                      )}
+                    </div>
+
+                    {/* Details */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <h4 className="text-white font-bold text-sm truncate">
+                            {isSent ? 'Sent' : 'Received'}
+                          </h4>
+                          <p className="text-slate-500 text-xs mt-0.5">
+                            {formatDate(tx.timestamp)}
+                          </p>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <p className={`font-bold text-sm ${
+                            isSent ? 'text-red-400' : 'text-green-400'
+                          }`}>
+                            {displayAmount > 0 ? '+' : ''}₱{Math.abs(displayAmount).toFixed(2)}
+                          </p>
+                          <p className="text-slate-600 text-xs mt-0.5">
+                            Tap for details
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Infinite scroll sentinel */}
+          <div ref={loadMoreRef} className="flex items-center justify-center py-4">
+            {loadingMore ? (
+              <Loader2 className="w-5 h-5 text-ethblue animate-spin" />
+            ) : !nextCursor && transactions.length > 0 ? (
+              <p className="text-slate-600 text-xs">No older activity</p>
+            ) : null}
+          </div>
+        </>
+      )}
+
+      <ExportTransactionsModal
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        userId={userId}
+      />
+
+      <ReceiptModal receipt={receipt} onClose={() => setReceipt(null)} />
 
       {/* Transaction Details Modal */}
       {selectedTransaction && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
-          <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+          <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
             
             {/* Header */}
             <div className="flex items-center justify-between p-6 border-b border-white/5">
@@ -224,6 +438,11 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
                 <p className="text-slate-500 text-sm">
                   {selectedTransaction.type === 'send' ? 'Sent' : 'Received'}
                 </p>
+                {selectedTransaction.type === 'send' && !!selectedTransaction.fee && (
+                  <p className="text-slate-500 text-xs">
+                    + ₱{selectedTransaction.fee.toFixed(2)} fee
+                  </p>
+                )}
               </div>
 
               {/* Transaction Info */}
@@ -306,13 +525,32 @@ const ActivityTab: React.FC<ActivityTabProps> = ({ userId, currentUser, onRefres
                 </div>
               </div>
 
-              {/* Close Button */}
-              <button
-                onClick={() => setSelectedTransaction(null)}
-                className="w-full bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
-              >
-                Close
-              </button>
+              {/* Save the other party to contacts */}
+              <ContactSaveForm
+                ownerId={userId}
+                contactId={selectedTransaction.type === 'send' ? selectedTransaction.receiver_id : selectedTransaction.sender_id}
+                className="bg-darkbg border border-white/5 rounded-xl p-4"
+              />
+
+              {/* Actions */}
+              <div className="flex gap-3">
+                <button
+                  onClick={() => {
+                    setReceipt(ReceiptService.fromTransaction(selectedTransaction));
+                    setSelectedTransaction(null);
+                  }}
+                  className="flex-1 bg-white/5 hover:bg-white/10 text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+                >
+                  <Receipt className="w-4 h-4" />
+                  Receipt
+                </button>
+                <button
+                  onClick={() => setSelectedTransaction(null)}
+                  className="flex-1 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors"
+                >
+                  Close
+                </button>
+              </div>
             </div>
           </div>
         </div>
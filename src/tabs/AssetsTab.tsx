@@ -3,6 +3,7 @@ import { Wallet, TrendingUp, TrendingDown, RefreshCw, Plus, DollarSign } from 'l
 import { supabase } from '../lib/supabase';
 import { Profile, CryptoAsset, CryptoPrice } from '../../src/context/types';
 import { CryptoService } from '../lib/cryptoService';
+import RecurringBuysSection from './RecurringBuysSection';
 
 interface AssetsTabProps {
   currentUser: Profile;
@@ -50,17 +51,17 @@ const AssetsTab: React.FC<AssetsTabProps> = ({ currentUser, onRefresh }) => {
         return;
       }
 
-      // Get unique coin IDs
-      const coinIds = [...new Set(cryptoAssets.map(a => a.coin_id))];
+      // Get unique symbols
+      const symbols = [...new Set(cryptoAssets.map(a => a.symbol))];
 
       // Fetch current prices
-      const prices = await CryptoService.getCryptoPrices(coinIds);
+      const prices = await CryptoService.getCryptoPrices(symbols);
 
       // Combine assets with price data
       const assetsWithPrices: AssetWithPrice[] = cryptoAssets.map(asset => {
-        const priceData = prices[asset.coin_id];
-        const currentPrice = priceData?.usd || 0;
-        const priceChange24h = priceData?.usd_24h_change || 0;
+        const priceData = prices.get(asset.symbol);
+        const currentPrice = priceData?.current_price_usd || 0;
+        const priceChange24h = priceData?.price_change_24h || 0;
         const usdValue = currentPrice * asset.amount;
 
         return {
@@ -251,6 +252,9 @@ const AssetsTab: React.FC<AssetsTabProps> = ({ currentUser, onRefresh }) => {
         )}
       </div>
 
+      {/* Recurring Buys */}
+      <RecurringBuysSection currentUser={currentUser} />
+
       {/* Quick Actions */}
       <div className="grid grid-cols-2 gap-3">
         <button className="flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 text-white font-bold py-3 rounded-xl transition-colors">
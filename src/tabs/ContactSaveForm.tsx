@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Star, UserPlus, Check, Loader2, Pencil } from 'lucide-react';
+import { ContactService } from '../lib/contactService';
+import { Contact } from '../context/types';
+
+interface ContactSaveFormProps {
+  ownerId: string;
+  contactId: string;
+  className?: string; // Applied to the wrapper; nothing renders while loading
+}
+
+/**
+ * Save a counterparty to the address book with an optional nickname,
+ * or rename/favorite them if they are already saved
+ * Used from the send confirm step and from transaction details
+ */
+const ContactSaveForm: React.FC<ContactSaveFormProps> = ({ ownerId, contactId, className }) => {
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [nickname, setNickname] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (ownerId === contactId) return;
+
+    setLoading(true);
+    setEditing(false);
+    setError('');
+    ContactService.getContact(ownerId, contactId)
+      .then(setContact)
+      .finally(() => setLoading(false));
+  }, [ownerId, contactId]);
+
+  if (ownerId === contactId || loading) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    const result = await ContactService.saveContact(ownerId, contactId, { nickname });
+    setSaving(false);
+
+    if (!result.success || !result.contact) {
+      setError(result.error || 'Failed to save contact');
+      return;
+    }
+
+    setContact(result.contact);
+    setEditing(false);
+  };
+
+  const handleToggleFavorite = async () => {
+    if (!contact) return;
+
+    const isFavorite = !contact.is_favorite;
+    if (await ContactService.setFavorite(contact.id, isFavorite)) {
+      setContact({ ...contact, is_favorite: isFavorite });
+    }
+  };
+
+  const startEditing = () => {
+    setNickname(contact?.nickname || '');
+    setEditing(true);
+  };
+
+  if (editing) {
+    return (
+      <div className={`space-y-2 ${className || ''}`}>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Nickname (optional)"
+            maxLength={40}
+            autoFocus
+            className="flex-1 bg-black/30 border border-white/10 rounded-xl px-4 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-ethblue transition-colors"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white text-sm font-bold px-4 rounded-xl transition-colors flex items-center gap-1"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Save
+          </button>
+        </div>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+      </div>
+    );
+  }
+
+  if (!contact) {
+    return (
+      <div className={className}>
+        <button
+          onClick={startEditing}
+          className="flex items-center gap-2 text-sm font-bold text-ethblue hover:text-ethblue/80 transition-colors"
+        >
+          <UserPlus className="w-4 h-4" />
+          Save to contacts
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center justify-between gap-3 ${className || ''}`}>
+      <p className="text-sm text-slate-400 truncate">
+        Saved as <span className="text-white font-bold">{contact.nickname || contact.profile?.full_name || 'contact'}</span>
+      </p>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={startEditing}
+          title="Rename"
+          className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+        >
+          <Pencil className="w-4 h-4 text-slate-400" />
+        </button>
+        <button
+          onClick={handleToggleFavorite}
+          title={contact.is_favorite ? 'Remove from favorites' : 'Add to favorites'}
+          className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+        >
+          <Star className={`w-4 h-4 ${contact.is_favorite ? 'text-yellow-400 fill-yellow-400' : 'text-slate-400'}`} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ContactSaveForm;
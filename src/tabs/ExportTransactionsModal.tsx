@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { ExportService } from '../lib/exportService';
+import { ExportFormat } from '../context/types';
+
+interface ExportTransactionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: 'Spreadsheets' },
+  { value: 'ofx', label: 'OFX', hint: 'Quicken, GnuCash, Xero' },
+  { value: 'qif', label: 'QIF', hint: 'Older desktop tools' },
+];
+
+const toDateInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const ExportTransactionsModal: React.FC<ExportTransactionsModalProps> = ({ isOpen, onClose, userId }) => {
+  const today = new Date();
+  const [fromDate, setFromDate] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [toDate, setToDate] = useState(toDateInput(today));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setError('');
+
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setError('Please choose a valid date range');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const transactions = await ExportService.getTransactionsInRange(userId, fromDate, toDate);
+
+      if (transactions.length === 0) {
+        setError('No transactions in this date range');
+        return;
+      }
+
+      const content = ExportService.build(format, transactions, { accountId: userId, fromDate, toDate });
+      ExportService.download(content, format, fromDate, toDate);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting transactions:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+              <Download className="w-5 h-5 text-ethblue" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Export Activity</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                From
+              </label>
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full bg-darkbg border border-white/10 rounded-xl px-3 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                To
+              </label>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full bg-darkbg border border-white/10 rounded-xl px-3 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              Format
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={`rounded-xl border p-3 text-left transition-colors ${
+                    format === option.value
+                      ? 'bg-ethblue/20 border-ethblue/30'
+                      : 'bg-darkbg border-white/10 hover:border-white/20'
+                  }`}
+                >
+                  <p className={`text-sm font-bold ${format === option.value ? 'text-ethblue' : 'text-white'}`}>
+                    {option.label}
+                  </p>
+                  <p className="text-[10px] text-slate-500 mt-0.5">{option.hint}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="w-full bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+            {exporting ? 'Preparing file...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportTransactionsModal;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Receipt, Share2, Image, FileText, Check, Loader2 } from 'lucide-react';
+import { ReceiptService } from '../lib/receiptService';
+import { TransactionReceipt } from '../context/types';
+
+interface ReceiptModalProps {
+  receipt: TransactionReceipt | null;
+  onClose: () => void;
+}
+
+/**
+ * Receipt body, shared by the modal and the public verification page
+ */
+export const ReceiptDetails: React.FC<{ receipt: TransactionReceipt }> = ({ receipt }) => {
+  const party = (p: TransactionReceipt['sender']) => (
+    <>
+      <p className="text-white font-bold">{p.full_name}</p>
+      {p.username && <p className="text-slate-400 text-sm">@{p.username}</p>}
+    </>
+  );
+
+  return (
+    <div className="bg-darkbg border border-white/5 rounded-2xl p-6 space-y-5">
+      <div className="text-center space-y-1">
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Amount Paid</p>
+        <p className="text-4xl font-black text-white">{ReceiptService.formatAmount(receipt)}</p>
+        <p className="text-xs text-slate-500 font-mono">{receipt.reference}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 border-t border-dashed border-white/10 pt-5">
+        <div>
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">From</p>
+          {party(receipt.sender)}
+        </div>
+        <div>
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">To</p>
+          {party(receipt.receiver)}
+        </div>
+      </div>
+
+      {receipt.description && (
+        <div>
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Note</p>
+          <p className="text-slate-300 text-sm">{receipt.description}</p>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Date & Time</p>
+        <p className="text-white text-sm">
+          {new Date(receipt.timestamp).toLocaleString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            hour12: true,
+          })}
+        </p>
+      </div>
+
+      <div>
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Transaction ID</p>
+        <p className="text-slate-400 text-xs font-mono break-all">{receipt.transaction_id}</p>
+      </div>
+    </div>
+  );
+};
+
+const ReceiptModal: React.FC<ReceiptModalProps> = ({ receipt, onClose }) => {
+  const [busy, setBusy] = useState<'image' | 'pdf' | 'share' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!receipt) return null;
+
+  const run = async (action: 'image' | 'pdf' | 'share') => {
+    setError('');
+    setBusy(action);
+    try {
+      if (action === 'image') {
+        await ReceiptService.downloadImage(receipt);
+      } else if (action === 'pdf') {
+        ReceiptService.downloadPdf(receipt);
+      } else if (await ReceiptService.share(receipt) === 'copied') {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+    } catch (err) {
+      // Dismissing the share sheet rejects with AbortError; not a failure
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Error exporting receipt:', err);
+        setError('Could not export the receipt. Please try again.');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const actionClass = 'flex flex-col items-center gap-2 bg-darkbg border border-white/10 hover:border-ethblue/50 rounded-xl py-3 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-cardbg border border-white/10 rounded-3xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-ethblue/20 rounded-full flex items-center justify-center">
+              <Receipt className="w-5 h-5 text-ethblue" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Receipt</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full hover:bg-white/5 flex items-center justify-center transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <ReceiptDetails receipt={receipt} />
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => run('image')} disabled={busy !== null} className={actionClass}>
+              {busy === 'image' ? <Loader2 className="w-5 h-5 text-ethblue animate-spin" /> : <Image className="w-5 h-5 text-ethblue" />}
+              <span className="text-xs font-bold text-white">Image</span>
+            </button>
+            <button onClick={() => run('pdf')} disabled={busy !== null} className={actionClass}>
+              {busy === 'pdf' ? <Loader2 className="w-5 h-5 text-ethblue animate-spin" /> : <FileText className="w-5 h-5 text-ethblue" />}
+              <span className="text-xs font-bold text-white">PDF</span>
+            </button>
+            <button onClick={() => run('share')} disabled={busy !== null} className={actionClass}>
+              {busy === 'share' ? (
+                <Loader2 className="w-5 h-5 text-ethblue animate-spin" />
+              ) : copied ? (
+                <Check className="w-5 h-5 text-green-400" />
+              ) : (
+                <Share2 className="w-5 h-5 text-ethblue" />
+              )}
+              <span className="text-xs font-bold text-white">{copied ? 'Copied' : 'Share'}</span>
+            </button>
+          </div>
+
+          <p className="text-xs text-slate-500 text-center">
+            Shared receipts link to a page where anyone can verify this payment
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptModal;
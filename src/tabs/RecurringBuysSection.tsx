@@ -0,0 +1,380 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat, Loader2, Pause, Play, Trash2, History, Plus, X } from 'lucide-react';
+import { RecurringBuyService } from '../lib/recurringBuyService';
+import { CryptoService } from '../lib/cryptoService';
+import { Profile, RecurringBuy, RecurringBuyFrequency, RecurringBuyRun } from '../context/types';
+
+interface RecurringBuysSectionProps {
+  currentUser: Profile;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+// "every Monday" / "monthly on the 18th", from the plan's anchor date
+const describeSchedule = (frequency: RecurringBuyFrequency, startAt: string) => {
+  const date = new Date(startAt);
+  if (frequency === 'weekly') {
+    return `every ${date.toLocaleDateString('en-US', { weekday: 'long' })}`;
+  }
+  const day = date.getDate();
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `monthly on the ${day}${suffix}`;
+};
+
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: value < 1 ? 6 : 2 }).format(value);
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const RecurringBuysSection: React.FC<RecurringBuysSectionProps> = ({ currentUser }) => {
+  const supportedAssets = CryptoService.getSupportedAssets();
+
+  const [plans, setPlans] = useState<RecurringBuy[]>([]);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Form state
+  const [showForm, setShowForm] = useState(false);
+  const [symbol, setSymbol] = useState('BTC');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurringBuyFrequency>('weekly');
+  const [startAt, setStartAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // History state
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [runs, setRuns] = useState<RecurringBuyRun[]>([]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [currentUser.id]);
+
+  const fetchPlans = async () => {
+    setLoading(true);
+    try {
+      const data = await RecurringBuyService.getPlans(currentUser.id);
+      setPlans(data);
+
+      const symbols = [...new Set(data.map(p => p.symbol))];
+      if (symbols.length > 0) {
+        const priceData = await CryptoService.getCryptoPrices(symbols);
+        const current: Record<string, number> = {};
+        priceData.forEach((price, sym) => {
+          current[sym] = price.current_price_usd;
+        });
+        setPrices(current);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = () => {
+    setSymbol('BTC');
+    setAmount('');
+    setFrequency('weekly');
+    setStartAt(toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000).toISOString()));
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleCreate = async () => {
+    setError('');
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum < 1) {
+      setError('Amount must be at least ₱1.00');
+      return;
+    }
+
+    if (!startAt) {
+      setError('Choose when the first buy should happen');
+      return;
+    }
+
+    setSaving(true);
+    const result = await RecurringBuyService.createPlan({
+      user_id: currentUser.id,
+      symbol,
+      php_amount: amountNum,
+      frequency,
+      start_at: new Date(startAt).toISOString(),
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to create recurring buy');
+      return;
+    }
+
+    setShowForm(false);
+    fetchPlans();
+  };
+
+  const handleToggle = async (plan: RecurringBuy) => {
+    const result = plan.status === 'paused'
+      ? await RecurringBuyService.resumePlan(plan.id)
+      : await RecurringBuyService.pausePlan(plan.id);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to update recurring buy');
+      return;
+    }
+    fetchPlans();
+  };
+
+  const handleCancel = async (plan: RecurringBuy) => {
+    if (!window.confirm(`Stop buying ${plan.symbol} ${describeSchedule(plan.frequency, plan.start_at)}?`)) return;
+
+    const result = await RecurringBuyService.cancelPlan(plan.id);
+    if (!result.success) {
+      setError(result.error || 'Failed to cancel recurring buy');
+      return;
+    }
+    fetchPlans();
+  };
+
+  const toggleHistory = async (plan: RecurringBuy) => {
+    if (historyFor === plan.id) {
+      setHistoryFor(null);
+      return;
+    }
+    setRuns([]);
+    setHistoryFor(plan.id);
+    setRuns(await RecurringBuyService.getRuns(plan.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">
+          Recurring Buys
+        </h3>
+        <button
+          onClick={() => (showForm ? setShowForm(false) : openForm())}
+          className="text-xs font-bold text-ethblue uppercase tracking-widest hover:text-white transition-colors"
+        >
+          {showForm ? 'Close' : 'New Plan'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* New Plan */}
+      {showForm && (
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                Asset
+              </label>
+              <select
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value)}
+                className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+              >
+                {supportedAssets.map((asset) => (
+                  <option key={asset.symbol} value={asset.symbol}>
+                    {asset.symbol}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+                Amount (₱)
+              </label>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="500.00"
+                step="0.01"
+                min="1"
+                className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-700 focus:outline-none focus:border-ethblue transition-colors"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              Frequency
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['weekly', 'monthly'] as RecurringBuyFrequency[]).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFrequency(f)}
+                  className={`py-2 rounded-xl text-sm font-bold capitalize transition-colors ${
+                    frequency === f ? 'bg-ethblue text-white' : 'bg-white/5 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              First Buy
+            </label>
+            <input
+              type="datetime-local"
+              value={startAt}
+              onChange={(e) => setStartAt(e.target.value)}
+              className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-ethblue transition-colors"
+            />
+            {startAt && parseFloat(amount) > 0 && (
+              <p className="text-xs text-slate-500 mt-2">
+                Buys ₱{parseFloat(amount).toFixed(2)} of {symbol} {describeSchedule(frequency, new Date(startAt).toISOString())} at the market price, 1% fee included
+              </p>
+            )}
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={saving || !amount}
+            className="w-full flex items-center justify-center gap-2 bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-colors"
+          >
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+            Create Plan
+          </button>
+        </div>
+      )}
+
+      {/* Plans */}
+      {loading ? (
+        <div className="py-6 flex justify-center">
+          <Loader2 className="w-6 h-6 text-ethblue animate-spin" />
+        </div>
+      ) : plans.length === 0 ? (
+        !showForm && (
+          <div className="bg-cardbg border border-white/5 rounded-2xl p-6 text-center">
+            <p className="text-white font-bold text-sm">No recurring buys</p>
+            <p className="text-slate-500 text-xs mt-1">Buy a fixed amount on a schedule to average your entry price</p>
+          </div>
+        )
+      ) : (
+        <div className="space-y-2">
+          {plans.map((plan) => {
+            const averageEntry = RecurringBuyService.averageEntryUsd(plan);
+            const currentPrice = prices[plan.symbol];
+            const change = averageEntry && currentPrice ? ((currentPrice - averageEntry) / averageEntry) * 100 : null;
+
+            return (
+              <div key={plan.id} className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-3">
+                <div className="flex items-start gap-4">
+                  <div className="w-10 h-10 rounded-full bg-ethblue/10 flex items-center justify-center flex-shrink-0">
+                    <Repeat className="w-5 h-5 text-ethblue" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-white font-bold text-sm">
+                          ₱{Number(plan.php_amount).toFixed(2)} of {plan.symbol}
+                        </p>
+                        <p className="text-slate-500 text-xs mt-0.5">
+                          {describeSchedule(plan.frequency, plan.start_at)}
+                          {plan.status === 'active' && ` · next ${formatDate(plan.next_run_at)}`}
+                        </p>
+                      </div>
+                      {plan.status === 'paused' && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full bg-yellow-500/10 text-yellow-400 flex-shrink-0">
+                          Paused
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="bg-black/30 rounded-xl p-3">
+                    <p className="text-slate-500">Invested</p>
+                    <p className="text-white font-bold mt-0.5">₱{Number(plan.total_invested_php).toFixed(2)}</p>
+                    <p className="text-slate-500 mt-0.5">{Number(plan.total_crypto_amount)} {plan.symbol}</p>
+                  </div>
+                  <div className="bg-black/30 rounded-xl p-3">
+                    <p className="text-slate-500">Avg. entry vs now</p>
+                    <p className="text-white font-bold mt-0.5">
+                      {averageEntry ? formatUsd(averageEntry) : '—'}
+                    </p>
+                    <p className="text-slate-500 mt-0.5">
+                      {currentPrice ? formatUsd(currentPrice) : '...'}
+                      {change !== null && (
+                        <span className={change >= 0 ? 'text-green-400' : 'text-red-400'}>
+                          {` ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => handleToggle(plan)}
+                    className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-white transition-colors"
+                  >
+                    {plan.status === 'paused' ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+                    {plan.status === 'paused' ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={() => toggleHistory(plan)}
+                    className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-white transition-colors"
+                  >
+                    {historyFor === plan.id ? <X className="w-3.5 h-3.5" /> : <History className="w-3.5 h-3.5" />}
+                    History
+                  </button>
+                  <button
+                    onClick={() => handleCancel(plan)}
+                    className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-red-400 transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Cancel
+                  </button>
+                </div>
+
+                {/* Execution History */}
+                {historyFor === plan.id && (
+                  <div className="border-t border-white/5 pt-3 space-y-2">
+                    {runs.length === 0 ? (
+                      <p className="text-slate-500 text-xs">No buys yet</p>
+                    ) : (
+                      runs.map((run) => (
+                        <div key={run.id} className="flex items-start justify-between gap-2 text-xs">
+                          <span className="text-slate-400">{formatDate(run.scheduled_for)}</span>
+                          {run.status === 'succeeded' ? (
+                            <span className="text-white text-right">
+                              {Number(run.crypto_amount)} {plan.symbol} at {formatUsd(Number(run.price_usd))}
+                            </span>
+                          ) : (
+                            <span className="text-red-400 text-right">
+                              {run.error_message || 'Failed'}
+                            </span>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringBuysSection;
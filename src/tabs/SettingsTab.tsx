@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { User, Mail, LogOut, Save, X, Check, AlertCircle, Shield, Bell, Eye } from 'lucide-react';
+import { User, Mail, LogOut, Save, X, Check, AlertCircle, Shield, Bell, Eye, FileText, Loader2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { StatementService } from '../lib/statementService';
 import { Profile } from '../../src/context/types';
 import { useAuth } from '../../src/context/AuthContext';
 
@@ -19,6 +20,33 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ currentUser, onRefresh }) =>
   const [fullName, setFullName] = useState(currentUser.full_name);
   const [username, setUsername] = useState(currentUser.username);
 
+  // Last twelve months, current month first, as YYYY-MM
+  const statementMonths = Array.from({ length: 12 }, (_, i) => {
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() - i);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+  const [statementMonth, setStatementMonth] = useState(statementMonths[0]);
+  const [generatingStatement, setGeneratingStatement] = useState(false);
+  const [statementError, setStatementError] = useState('');
+
+  const handleDownloadStatement = async () => {
+    setStatementError('');
+    setGeneratingStatement(true);
+
+    try {
+      const [year, month] = statementMonth.split('-').map(Number);
+      const statement = await StatementService.getMonthlyStatement(currentUser, year, month);
+      StatementService.downloadPdf(statement, currentUser);
+    } catch (err) {
+      console.error('Error generating statement:', err);
+      setStatementError('Failed to generate statement. Please try again.');
+    } finally {
+      setGeneratingStatement(false);
+    }
+  };
+
   const handleSave = async () => {
     setError('');
     setSuccess('');
@@ -238,6 +266,49 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ currentUser, onRefresh }) =>
         </div>
       </div>
 
+      {/* Statements Section */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">
+          Statements
+        </h3>
+
+        <div className="bg-cardbg border border-white/5 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <FileText className="w-5 h-5 text-slate-400" />
+            <div>
+              <p className="text-white font-medium">Monthly Statement</p>
+              <p className="text-xs text-slate-500 mt-0.5">Opening and closing balance with every transaction</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={statementMonth}
+              onChange={(e) => setStatementMonth(e.target.value)}
+              className="flex-1 bg-darkbg border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-ethblue transition-colors"
+            >
+              {statementMonths.map((value) => (
+                <option key={value} value={value}>
+                  {new Date(`${value}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleDownloadStatement}
+              disabled={generatingStatement}
+              className="bg-ethblue hover:bg-ethblue/90 disabled:bg-slate-700 text-white text-sm font-bold px-4 py-2 rounded-xl transition-colors flex items-center gap-2"
+            >
+              {generatingStatement && <Loader2 className="w-4 h-4 animate-spin" />}
+              Download PDF
+            </button>
+          </div>
+
+          {statementError && (
+            <p className="text-red-400 text-sm">{statementError}</p>
+          )}
+        </div>
+      </div>
+
       {/* Preferences Section */}
       <div className="space-y-4">
         <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">
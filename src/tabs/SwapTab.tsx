@@ -1,10 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowDown, Settings, Info, Loader2, AlertCircle, Search, X, ChevronDown } from 'lucide-react';
-
-interface Profile {
-  balance: number;
-  cryptoBalances?: { [key: string]: number };
-}
+import { ArrowDown, Settings, Info, Loader2, AlertCircle, Search, X, ChevronDown, CheckCircle2, Clock } from 'lucide-react';
+import { SwapService } from '../lib/swapService';
+import { Profile, SwapQuote } from '../context/types';
 
 interface SwapTabProps {
   currentUser: Profile;
@@ -16,7 +13,6 @@ interface Token {
   name: string;
   logoUrl: string;
   coingeckoId: string;
-  balance: number;
 }
 
 interface TokenPrice {
@@ -31,57 +27,49 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
       symbol: 'SOL', 
       name: 'Solana', 
       logoUrl: 'https://assets.coingecko.com/coins/images/4128/small/solana.png',
-      coingeckoId: 'solana', 
-      balance: 0 
+      coingeckoId: 'solana',
     },
     { 
       symbol: 'USDC', 
       name: 'USD Coin', 
       logoUrl: 'https://assets.coingecko.com/coins/images/6319/small/usdc.png',
-      coingeckoId: 'usd-coin', 
-      balance: 0 
+      coingeckoId: 'usd-coin',
     },
     { 
       symbol: 'USDT', 
       name: 'Tether', 
       logoUrl: 'https://assets.coingecko.com/coins/images/325/small/Tether.png',
-      coingeckoId: 'tether', 
-      balance: 0 
+      coingeckoId: 'tether',
     },
     { 
       symbol: 'ETH', 
       name: 'Ethereum', 
       logoUrl: 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
-      coingeckoId: 'ethereum', 
-      balance: 0 
+      coingeckoId: 'ethereum',
     },
     { 
       symbol: 'BTC', 
       name: 'Bitcoin', 
       logoUrl: 'https://assets.coingecko.com/coins/images/1/small/bitcoin.png',
-      coingeckoId: 'bitcoin', 
-      balance: 0 
+      coingeckoId: 'bitcoin',
     },
     { 
       symbol: 'WBTC', 
       name: 'Wrapped Bitcoin', 
       logoUrl: 'https://assets.coingecko.com/coins/images/7598/small/wrapped_bitcoin_wbtc.png',
-      coingeckoId: 'wrapped-bitcoin', 
-      balance: 0 
+      coingeckoId: 'wrapped-bitcoin',
     },
     { 
       symbol: 'RAY', 
       name: 'Raydium', 
       logoUrl: 'https://assets.coingecko.com/coins/images/13928/small/PSigc4ie_400x400.jpg',
-      coingeckoId: 'raydium', 
-      balance: 0 
+      coingeckoId: 'raydium',
     },
     { 
       symbol: 'ORCA', 
       name: 'Orca', 
       logoUrl: 'https://assets.coingecko.com/coins/images/17547/small/Orca_Logo.png',
-      coingeckoId: 'orca', 
-      balance: 0 
+      coingeckoId: 'orca',
     },
   ];
 
@@ -98,6 +86,42 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
   const [prices, setPrices] = useState<{ [key: string]: TokenPrice }>({});
   const [priceLoading, setPriceLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [swapError, setSwapError] = useState('');
+  const [swapResult, setSwapResult] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  // Set when execution found the price outside the slippage tolerance
+  const [repricedAmount, setRepricedAmount] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchBalances();
+  }, [currentUser.id]);
+
+  const fetchBalances = async () => {
+    setBalances(await SwapService.getBalances(currentUser.id));
+  };
+
+  const balanceOf = (token: Token) => balances[token.symbol] ?? 0;
+
+  // A quote is for one exact pair, amount and tolerance; any change invalidates it
+  useEffect(() => {
+    setQuote(null);
+    setSwapError('');
+    setRepricedAmount(null);
+  }, [fromAmount, fromToken, toToken, slippage]);
+
+  // Countdown to the quote's expiry
+  useEffect(() => {
+    if (!quote) return;
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((new Date(quote.expires_at).getTime() - Date.now()) / 1000)));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
 
   // Fetch prices from CoinGecko
   useEffect(() => {
@@ -163,9 +187,9 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
     
     if (fromPrice && toPrice) {
       const fromValue = parseFloat(amount);
+      // Estimate only; the quote prices it server-side
       const toValue = (fromValue * fromPrice) / toPrice;
-      const withSlippage = toValue * (1 - slippage / 100);
-      setToAmount(withSlippage.toFixed(8));
+      setToAmount(toValue.toFixed(8));
     }
   };
 
@@ -188,7 +212,7 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
   };
 
   const handleMaxClick = () => {
-    setFromAmount(fromToken.balance.toString());
+    setFromAmount(balanceOf(fromToken).toString());
   };
 
   const handleTokenSelect = (token: Token) => {
@@ -217,19 +241,55 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
     token.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Step one: ask the server for a quote to review
   const handleSwap = async () => {
     if (!fromAmount || parseFloat(fromAmount) <= 0) return;
-    
+
     setLoading(true);
-    
-    // Simulate swap transaction
-    setTimeout(() => {
-      setLoading(false);
-      alert(`Swap executed!\n${fromAmount} ${fromToken.symbol} → ${toAmount} ${toToken.symbol}`);
-      setFromAmount('');
-      setToAmount('');
-      onRefresh?.();
-    }, 2000);
+    setSwapError('');
+    setSwapResult('');
+    setRepricedAmount(null);
+
+    const result = await SwapService.getQuote(fromToken.symbol, toToken.symbol, parseFloat(fromAmount), slippage);
+    setLoading(false);
+
+    if (!result.success || !result.quote) {
+      setSwapError(result.error || 'Could not get a quote');
+      return;
+    }
+
+    setSecondsLeft(Math.ceil((new Date(result.quote.expires_at).getTime() - Date.now()) / 1000));
+    setQuote(result.quote);
+  };
+
+  // Step two: execute exactly the quoted amounts
+  const handleConfirmSwap = async () => {
+    if (!quote) return;
+
+    setLoading(true);
+    setSwapError('');
+
+    const result = await SwapService.executeSwap(quote.id);
+    setLoading(false);
+
+    if (!result.success) {
+      if (result.code === 'PRICE_CHANGED') {
+        // Nothing moved; offer a fresh quote at the new price
+        setRepricedAmount(result.repriced_amount ?? null);
+        setQuote(null);
+        return;
+      }
+      setSwapError(result.error || 'Swap failed');
+      if (result.code === 'QUOTE_EXPIRED' || result.code === 'QUOTE_USED') setQuote(null);
+      return;
+    }
+
+    const filled = result.transaction?.to_amount ?? quote.to_amount;
+    setSwapResult(`Swapped ${quote.from_amount} ${quote.from_symbol} for ${filled} ${quote.to_symbol}`);
+    setFromAmount('');
+    setToAmount('');
+    await fetchBalances();
+    onRefresh?.();
   };
 
   const getUsdValue = (amount: string, token: Token) => {
@@ -296,7 +356,7 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
           <div className="flex items-center justify-between mb-3">
             <label className="text-xs sm:text-sm font-medium text-slate-400">You Pay</label>
             <span className="text-xs text-slate-500 truncate max-w-[180px]">
-              Balance: {fromToken.balance.toFixed(4)} {fromToken.symbol}
+              Balance: {balanceOf(fromToken).toFixed(4)} {fromToken.symbol}
             </span>
           </div>
           
@@ -354,7 +414,7 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
           <div className="flex items-center justify-between mb-3">
             <label className="text-xs sm:text-sm font-medium text-slate-400">You Receive</label>
             <span className="text-xs text-slate-500 truncate max-w-[180px]">
-              Balance: {toToken.balance.toFixed(4)} {toToken.symbol}
+              Balance: {balanceOf(toToken).toFixed(4)} {toToken.symbol}
             </span>
           </div>
           
@@ -426,23 +486,86 @@ const SwapTab: React.FC<SwapTabProps> = ({ currentUser, onRefresh }) => {
           </div>
         )}
 
+        {/* Quote Review */}
+        {quote && (
+          <div className="bg-slate-800 border border-blue-500/40 rounded-2xl p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-white">Review Swap</h3>
+              <span className={`flex items-center gap-1 text-xs font-bold ${secondsLeft > 5 ? 'text-slate-400' : 'text-yellow-400'}`}>
+                <Clock className="w-3 h-3" />
+                {secondsLeft > 0 ? `Expires in ${secondsLeft}s` : 'Expired'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-xs sm:text-sm">
+              <span className="text-slate-400">You pay</span>
+              <span className="text-white font-medium">{quote.from_amount} {quote.from_symbol}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs sm:text-sm">
+              <span className="text-slate-400">Rate</span>
+              <span className="text-white font-medium text-right break-all max-w-[60%]">
+                1 {quote.from_symbol} = {Number(quote.rate).toFixed(8)} {quote.to_symbol}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-xs sm:text-sm">
+              <span className="text-slate-400">Fee</span>
+              <span className="text-white font-medium">{quote.fee_amount} {quote.to_symbol}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs sm:text-sm border-t border-slate-700 pt-2">
+              <span className="text-slate-400">You receive</span>
+              <span className="text-white font-bold">{quote.to_amount} {quote.to_symbol}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs sm:text-sm">
+              <span className="text-slate-400">Minimum received ({quote.slippage_percent}% slippage)</span>
+              <span className="text-white font-medium">{quote.min_to_amount} {quote.to_symbol}</span>
+            </div>
+          </div>
+        )}
+
+        {repricedAmount !== null && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-3 flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />
+            <p className="text-yellow-400 text-xs">
+              Price changed beyond your {slippage}% slippage tolerance. You would now receive about{' '}
+              {repricedAmount} {toToken.symbol}. Request a new quote to continue, or raise your tolerance.
+            </p>
+          </div>
+        )}
+
+        {swapError && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-2xl p-3 flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400 text-xs">{swapError}</p>
+          </div>
+        )}
+
+        {swapResult && (
+          <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-3 flex items-start gap-2">
+            <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0 mt-0.5" />
+            <p className="text-green-400 text-xs">{swapResult}</p>
+          </div>
+        )}
+
         {/* Swap Button */}
         <button
-          onClick={handleSwap}
-          disabled={!fromAmount || parseFloat(fromAmount) <= 0 || parseFloat(fromAmount) > fromToken.balance || loading}
+          onClick={quote && secondsLeft > 0 ? handleConfirmSwap : handleSwap}
+          disabled={!fromAmount || parseFloat(fromAmount) <= 0 || parseFloat(fromAmount) > balanceOf(fromToken) || loading}
           className="w-full bg-gradient-to-r from-blue-400 to-purple-500 hover:from-blue-600 hover:to-purple-600 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-bold py-3 sm:py-4 rounded-2xl transition-all flex items-center justify-center gap-2 text-sm sm:text-base"
         >
           {loading ? (
             <>
               <Loader2 className="w-5 h-5 animate-spin" />
-              Swapping...
+              {quote && secondsLeft > 0 ? 'Swapping...' : 'Getting quote...'}
             </>
           ) : (
             <>
               {!fromAmount || parseFloat(fromAmount) <= 0
                 ? 'Enter an amount'
-                : parseFloat(fromAmount) > fromToken.balance
+                : parseFloat(fromAmount) > balanceOf(fromToken)
                 ? 'Insufficient balance'
+                : quote && secondsLeft > 0
+                ? 'Confirm Swap'
+                : quote || repricedAmount !== null
+                ? 'Get New Quote'
                 : 'Review Swap'}
             </>
           )}
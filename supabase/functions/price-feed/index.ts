@@ -0,0 +1,67 @@
+// Price feed for the crypto features.
+//
+// Fetches USD prices for every asset in crypto_prices and the PHP per USD
+// rate from CoinGecko, then records them through the service-role RPCs.
+// record_crypto_prices and record_fx_rates also run match_crypto_orders,
+// so resting orders fill as soon as the new prices land. Schedule this
+// every minute: quotes refuse prices older than two minutes.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  try {
+    const { data: assets, error: assetsError } = await supabase
+      .from('crypto_prices')
+      .select('symbol, coin_id');
+
+    if (assetsError) throw assetsError;
+
+    const coinIds = (assets || []).map(a => a.coin_id).join(',');
+    const [pricesResponse, ratesResponse] = await Promise.all([
+      fetch(`${COINGECKO_API}/simple/price?ids=${coinIds}&vs_currencies=usd`),
+      fetch(`${COINGECKO_API}/exchange_rates`),
+    ]);
+
+    if (!pricesResponse.ok || !ratesResponse.ok) {
+      throw new Error(`CoinGecko API error: ${pricesResponse.status} / ${ratesResponse.status}`);
+    }
+
+    const prices = await pricesResponse.json();
+    const { rates } = await ratesResponse.json();
+
+    // symbol -> USD price, for assets CoinGecko returned
+    const usdPrices: Record<string, number> = {};
+    for (const asset of assets || []) {
+      const price = prices[asset.coin_id]?.usd;
+      if (typeof price === 'number' && price > 0) {
+        usdPrices[asset.symbol] = price;
+      }
+    }
+
+    // Exchange rates are quoted against BTC, so PHP per USD is their ratio
+    const phpPerUsd = rates?.php?.value / rates?.usd?.value;
+
+    const { error: pricesError } = await supabase.rpc('record_crypto_prices', { p_prices: usdPrices });
+    if (pricesError) throw pricesError;
+
+    if (Number.isFinite(phpPerUsd) && phpPerUsd > 0) {
+      const { error: ratesError } = await supabase.rpc('record_fx_rates', { p_rates: { USD: phpPerUsd } });
+      if (ratesError) throw ratesError;
+    }
+
+    return Response.json({
+      prices: Object.keys(usdPrices).length,
+      php_per_usd: Number.isFinite(phpPerUsd) ? phpPerUsd : null,
+    });
+  } catch (error) {
+    console.error('Error updating crypto prices:', error);
+    return Response.json({ error: 'Failed to update prices' }, { status: 500 });
+  }
+});
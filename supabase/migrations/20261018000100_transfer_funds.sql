@@ -0,0 +1,94 @@
+-- Atomic peer-to-peer transfer used by TransactionService.sendFunds.
+--
+-- Validation, the transactions row and both balance updates run inside a
+-- single database transaction. Both profile rows are locked before the
+-- balance check so concurrent sends cannot read stale balances.
+--
+-- Business failures are returned as { success: false, code } rather than
+-- raised, so the client can map them to a TransactionResult.
+
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_receiver profiles%rowtype;
+  v_tx transactions%rowtype;
+begin
+  -- Only the signed-in user may move money out of their own account
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_sender_id = p_receiver_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER');
+  end if;
+
+  -- Lock both rows in a stable order so two opposite transfers between the
+  -- same pair of users cannot deadlock
+  perform 1
+    from profiles
+   where id in (p_sender_id, p_receiver_id)
+   order by id
+     for update;
+
+  select * into v_sender from profiles where id = p_sender_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'SENDER_NOT_FOUND');
+  end if;
+
+  select * into v_receiver from profiles where id = p_receiver_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'RECEIVER_NOT_FOUND');
+  end if;
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'available', v_sender.balance
+    );
+  end if;
+
+  insert into transactions (sender_id, receiver_id, amount, currency, "timestamp", description)
+  values (
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    coalesce(p_currency, 'PHP'),
+    now(),
+    coalesce(
+      nullif(trim(p_description), ''),
+      format('Transfer from %s to %s', v_sender.full_name, v_receiver.full_name)
+    )
+  )
+  returning * into v_tx;
+
+  update profiles set balance = balance - p_amount where id = p_sender_id;
+  update profiles set balance = balance + p_amount where id = p_receiver_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'transaction', to_jsonb(v_tx) || jsonb_build_object(
+      'sender_name', v_sender.full_name,
+      'receiver_name', v_receiver.full_name
+    )
+  );
+end;
+$$;
+
+revoke all on function public.transfer_funds(uuid, uuid, numeric, text, text) from public;
+grant execute on function public.transfer_funds(uuid, uuid, numeric, text, text) to authenticated;
@@ -0,0 +1,425 @@
+-- Double-entry ledger behind profiles.balance.
+--
+-- Every balance change is a journal entry whose postings debit and credit
+-- ledger accounts by equal totals. Each profile owns one user account;
+-- system accounts (opening balances, and later fees) have no profile.
+--
+-- profiles.balance becomes a cached projection of the user account: it is
+-- only changed by the posting trigger below, never updated directly, and
+-- reconcile_ledger() reports any profile where the two disagree.
+
+create table if not exists public.ledger_accounts (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid unique references public.profiles(id) on delete restrict,
+  code text unique,
+  kind text not null check (kind in ('user', 'system')),
+  created_at timestamptz not null default now(),
+  check ((kind = 'user') = (profile_id is not null)),
+  check ((kind = 'system') = (code is not null))
+);
+
+create table if not exists public.journal_entries (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid references public.transactions(id) on delete restrict,
+  kind text not null,
+  memo text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists journal_entries_transaction_id_idx
+  on public.journal_entries (transaction_id);
+
+create table if not exists public.ledger_postings (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.journal_entries(id) on delete restrict,
+  account_id uuid not null references public.ledger_accounts(id) on delete restrict,
+  debit numeric not null default 0 check (debit >= 0),
+  credit numeric not null default 0 check (credit >= 0),
+  created_at timestamptz not null default now(),
+  check ((debit = 0) <> (credit = 0))
+);
+
+create index if not exists ledger_postings_account_id_idx
+  on public.ledger_postings (account_id, created_at);
+create index if not exists ledger_postings_entry_id_idx
+  on public.ledger_postings (entry_id);
+
+insert into public.ledger_accounts (code, kind)
+values ('system:opening', 'system')
+on conflict (code) do nothing;
+
+-- Returns the user account for a profile, creating it on first use
+create or replace function public.ledger_account_for(p_profile_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_account_id uuid;
+begin
+  select id into v_account_id from ledger_accounts where profile_id = p_profile_id;
+
+  if v_account_id is null then
+    insert into ledger_accounts (profile_id, kind)
+    values (p_profile_id, 'user')
+    on conflict (profile_id) do update set profile_id = excluded.profile_id
+    returning id into v_account_id;
+  end if;
+
+  return v_account_id;
+end;
+$$;
+
+-- Returns a system account by code
+create or replace function public.ledger_system_account(p_code text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from ledger_accounts where code = p_code and kind = 'system';
+$$;
+
+-- Writes a journal entry. p_postings is an array of
+-- { account_id, debit } / { account_id, credit } objects; the deferred
+-- trigger below rejects the entry at commit if it does not balance.
+create or replace function public.post_journal_entry(
+  p_kind text,
+  p_memo text,
+  p_postings jsonb,
+  p_transaction_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry_id uuid;
+begin
+  if jsonb_array_length(p_postings) < 2 then
+    raise exception 'journal entry needs at least two postings';
+  end if;
+
+  insert into journal_entries (transaction_id, kind, memo)
+  values (p_transaction_id, p_kind, p_memo)
+  returning id into v_entry_id;
+
+  insert into ledger_postings (entry_id, account_id, debit, credit)
+  select v_entry_id,
+         (p ->> 'account_id')::uuid,
+         coalesce((p ->> 'debit')::numeric, 0),
+         coalesce((p ->> 'credit')::numeric, 0)
+    from jsonb_array_elements(p_postings) as p;
+
+  return v_entry_id;
+end;
+$$;
+
+-- Every entry must balance by the end of the database transaction
+create or replace function public.ledger_check_entry_balanced()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_debits numeric;
+  v_credits numeric;
+begin
+  select coalesce(sum(debit), 0), coalesce(sum(credit), 0)
+    into v_debits, v_credits
+    from ledger_postings
+   where entry_id = new.entry_id;
+
+  if v_debits <> v_credits then
+    raise exception 'journal entry % is unbalanced (debits %, credits %)',
+      new.entry_id, v_debits, v_credits;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ledger_postings_balanced on public.ledger_postings;
+create constraint trigger ledger_postings_balanced
+  after insert on public.ledger_postings
+  deferrable initially deferred
+  for each row execute function public.ledger_check_entry_balanced();
+
+-- Postings to a user account move the cached profiles.balance. A user
+-- wallet is a liability of the platform, so credits increase it.
+create or replace function public.ledger_apply_posting()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update profiles p
+     set balance = p.balance + new.credit - new.debit
+    from ledger_accounts a
+   where a.id = new.account_id
+     and a.profile_id = p.id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists ledger_postings_apply on public.ledger_postings;
+create trigger ledger_postings_apply
+  after insert on public.ledger_postings
+  for each row execute function public.ledger_apply_posting();
+
+-- Postings are append-only
+create or replace function public.ledger_reject_mutation()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'ledger postings are append-only';
+end;
+$$;
+
+drop trigger if exists ledger_postings_immutable on public.ledger_postings;
+create trigger ledger_postings_immutable
+  before update or delete on public.ledger_postings
+  for each row execute function public.ledger_reject_mutation();
+
+-- Backfill: open every existing balance against system:opening. The apply
+-- trigger is disabled so the balances already stored are not doubled.
+alter table public.ledger_postings disable trigger ledger_postings_apply;
+
+do $$
+declare
+  v_profile record;
+begin
+  for v_profile in
+    select p.id, p.balance
+      from profiles p
+     where p.balance <> 0
+       and not exists (
+         select 1
+           from ledger_accounts a
+           join ledger_postings lp on lp.account_id = a.id
+          where a.profile_id = p.id
+       )
+  loop
+    perform post_journal_entry(
+      'opening_balance',
+      'Opening balance',
+      case when v_profile.balance > 0 then
+        jsonb_build_array(
+          jsonb_build_object('account_id', ledger_system_account('system:opening'), 'debit', v_profile.balance),
+          jsonb_build_object('account_id', ledger_account_for(v_profile.id), 'credit', v_profile.balance)
+        )
+      else
+        jsonb_build_array(
+          jsonb_build_object('account_id', ledger_account_for(v_profile.id), 'debit', -v_profile.balance),
+          jsonb_build_object('account_id', ledger_system_account('system:opening'), 'credit', -v_profile.balance)
+        )
+      end
+    );
+  end loop;
+end;
+$$;
+
+alter table public.ledger_postings enable trigger ledger_postings_apply;
+
+-- Balances may no longer be written by clients; only the ledger moves them.
+-- Sign-up creates the profile row itself, possibly before a session exists,
+-- so inserts are limited to the identity columns and balance keeps its default.
+revoke insert, update on public.profiles from anon, authenticated;
+grant insert (id, full_name, username, created_at) on public.profiles to anon, authenticated;
+grant update (full_name, username) on public.profiles to authenticated;
+
+-- Profiles whose stored balance disagrees with the sum of their postings.
+-- Users may only reconcile their own profile; the service role may pass
+-- null to check every profile.
+create or replace function public.reconcile_ledger(p_profile_id uuid default null)
+returns table (
+  profile_id uuid,
+  stored_balance numeric,
+  ledger_balance numeric,
+  difference numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() is distinct from 'service_role'
+     and (p_profile_id is null or p_profile_id is distinct from auth.uid()) then
+    raise exception 'not allowed to reconcile this profile';
+  end if;
+
+  return query
+  select p.id,
+         p.balance,
+         coalesce(sum(lp.credit - lp.debit), 0),
+         p.balance - coalesce(sum(lp.credit - lp.debit), 0)
+    from profiles p
+    left join ledger_accounts a on a.profile_id = p.id
+    left join ledger_postings lp on lp.account_id = a.id
+   where p_profile_id is null or p.id = p_profile_id
+   group by p.id, p.balance
+  having p.balance <> coalesce(sum(lp.credit - lp.debit), 0);
+end;
+$$;
+
+-- Users can read their own account and postings; all writes go through
+-- the security definer functions above
+alter table public.ledger_accounts enable row level security;
+alter table public.journal_entries enable row level security;
+alter table public.ledger_postings enable row level security;
+
+drop policy if exists "Users read own ledger account" on public.ledger_accounts;
+create policy "Users read own ledger account" on public.ledger_accounts
+  for select using (profile_id = auth.uid());
+
+drop policy if exists "Users read own postings" on public.ledger_postings;
+create policy "Users read own postings" on public.ledger_postings
+  for select using (
+    account_id in (select id from public.ledger_accounts where profile_id = auth.uid())
+  );
+
+drop policy if exists "Users read own journal entries" on public.journal_entries;
+create policy "Users read own journal entries" on public.journal_entries
+  for select using (
+    id in (
+      select lp.entry_id
+        from public.ledger_postings lp
+        join public.ledger_accounts a on a.id = lp.account_id
+       where a.profile_id = auth.uid()
+    )
+  );
+
+revoke all on function public.ledger_account_for(uuid) from public;
+revoke all on function public.ledger_system_account(text) from public;
+revoke all on function public.post_journal_entry(text, text, jsonb, uuid) from public;
+revoke all on function public.reconcile_ledger(uuid) from public;
+-- Supabase grants new functions to anon and authenticated by default, so
+-- the internal helpers are revoked from them explicitly
+revoke execute on function public.ledger_account_for(uuid) from anon, authenticated;
+revoke execute on function public.ledger_system_account(text) from anon, authenticated;
+revoke execute on function public.post_journal_entry(text, text, jsonb, uuid) from anon, authenticated;
+grant execute on function public.reconcile_ledger(uuid) to authenticated, service_role;
+
+-- transfer_funds now posts a journal entry instead of updating balances
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_receiver profiles%rowtype;
+  v_tx transactions%rowtype;
+begin
+  -- Only the signed-in user may move money out of their own account
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_sender_id = p_receiver_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER');
+  end if;
+
+  -- Lock both rows in a stable order so two opposite transfers between the
+  -- same pair of users cannot deadlock
+  perform 1
+    from profiles
+   where id in (p_sender_id, p_receiver_id)
+   order by id
+     for update;
+
+  -- A replayed request returns the transfer it already created. This runs
+  -- after the row locks so two in-flight copies of one request serialize.
+  if p_idempotency_key is not null then
+    select * into v_tx
+      from transactions
+     where sender_id = p_sender_id
+       and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'transaction', to_jsonb(v_tx) || jsonb_build_object(
+          'sender_name', (select full_name from profiles where id = v_tx.sender_id),
+          'receiver_name', (select full_name from profiles where id = v_tx.receiver_id)
+        )
+      );
+    end if;
+  end if;
+
+  select * into v_sender from profiles where id = p_sender_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'SENDER_NOT_FOUND');
+  end if;
+
+  select * into v_receiver from profiles where id = p_receiver_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'RECEIVER_NOT_FOUND');
+  end if;
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'available', v_sender.balance
+    );
+  end if;
+
+  insert into transactions (sender_id, receiver_id, amount, currency, "timestamp", description, idempotency_key)
+  values (
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    coalesce(p_currency, 'PHP'),
+    now(),
+    coalesce(
+      nullif(trim(p_description), ''),
+      format('Transfer from %s to %s', v_sender.full_name, v_receiver.full_name)
+    ),
+    p_idempotency_key
+  )
+  returning * into v_tx;
+
+  -- Balances move only through the ledger: debit the sender's account and
+  -- credit the receiver's, linked to the transaction row
+  perform post_journal_entry(
+    'transfer',
+    v_tx.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(p_sender_id), 'debit', p_amount),
+      jsonb_build_object('account_id', ledger_account_for(p_receiver_id), 'credit', p_amount)
+    ),
+    v_tx.id
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'transaction', to_jsonb(v_tx) || jsonb_build_object(
+      'sender_name', v_sender.full_name,
+      'receiver_name', v_receiver.full_name
+    )
+  );
+end;
+$$;
+
+revoke all on function public.transfer_funds(uuid, uuid, numeric, text, text, uuid) from public;
+grant execute on function public.transfer_funds(uuid, uuid, numeric, text, text, uuid) to authenticated;
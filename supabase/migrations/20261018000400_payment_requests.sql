@@ -0,0 +1,192 @@
+-- Payment requests: a user asks another user (or anyone holding an open
+-- link) to pay them. Approving a request runs the normal transfer_funds
+-- path and marks the request paid in the same database transaction.
+
+create table if not exists public.payment_requests (
+  id uuid primary key default gen_random_uuid(),
+  requester_id uuid not null references public.profiles(id) on delete cascade,
+  payer_id uuid references public.profiles(id) on delete cascade, -- null for open links
+  amount numeric not null check (amount > 0),
+  currency text not null default 'PHP',
+  note text,
+  status text not null default 'pending'
+    check (status in ('pending', 'paid', 'declined', 'cancelled', 'expired')),
+  expires_at timestamptz not null default now() + interval '7 days',
+  transaction_id uuid references public.transactions(id),
+  paid_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  responded_at timestamptz,
+  check (payer_id is distinct from requester_id)
+);
+
+create index if not exists payment_requests_payer_idx
+  on public.payment_requests (payer_id, status, created_at desc);
+create index if not exists payment_requests_requester_idx
+  on public.payment_requests (requester_id, created_at desc);
+
+alter table public.payment_requests enable row level security;
+
+-- Parties can read their requests. Open links are not listable; whoever
+-- has the id opens them through get_payment_request below
+drop policy if exists "Parties read payment requests" on public.payment_requests;
+create policy "Parties read payment requests" on public.payment_requests
+  for select to authenticated using (
+    requester_id = auth.uid()
+    or payer_id = auth.uid()
+    or paid_by = auth.uid()
+  );
+
+drop policy if exists "Users create own payment requests" on public.payment_requests;
+create policy "Users create own payment requests" on public.payment_requests
+  for insert to authenticated with check (
+    requester_id = auth.uid()
+    and status = 'pending'
+    and transaction_id is null
+    and paid_by is null
+  );
+
+-- One request with both parties' names, for its parties or, for an open
+-- link, any signed-in user holding the id. Null if not visible.
+create or replace function public.get_payment_request(p_request_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(r) || jsonb_build_object(
+           'requester', (select jsonb_build_object('full_name', full_name, 'username', username)
+                           from profiles where id = r.requester_id),
+           'payer', (select jsonb_build_object('full_name', full_name, 'username', username)
+                       from profiles where id = r.payer_id)
+         )
+    from payment_requests r
+   where r.id = p_request_id
+     and (
+       r.payer_id is null
+       or auth.uid() in (r.requester_id, r.payer_id, r.paid_by)
+     );
+$$;
+
+-- Pays a pending request from the signed-in user's balance
+create or replace function public.pay_payment_request(
+  p_request_id uuid,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request payment_requests%rowtype;
+  v_result jsonb;
+begin
+  select * into v_request from payment_requests where id = p_request_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'REQUEST_NOT_FOUND');
+  end if;
+
+  if v_request.payer_id is not null and v_request.payer_id is distinct from auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if v_request.status = 'pending' and v_request.expires_at <= now() then
+    update payment_requests set status = 'expired' where id = p_request_id;
+    return jsonb_build_object('success', false, 'code', 'REQUEST_EXPIRED');
+  end if;
+
+  if v_request.status <> 'pending' then
+    return jsonb_build_object('success', false, 'code', 'REQUEST_CLOSED', 'status', v_request.status);
+  end if;
+
+  v_result := transfer_funds(
+    auth.uid(),
+    v_request.requester_id,
+    v_request.amount,
+    v_request.currency,
+    coalesce(v_request.note, 'Payment request'),
+    p_idempotency_key
+  );
+
+  if (v_result ->> 'success')::boolean then
+    update payment_requests
+       set status = 'paid',
+           paid_by = auth.uid(),
+           transaction_id = (v_result -> 'transaction' ->> 'id')::uuid,
+           responded_at = now()
+     where id = p_request_id;
+  end if;
+
+  return v_result;
+end;
+$$;
+
+-- Closes a pending request without paying it: the payer declines, the
+-- requester cancels
+create or replace function public.close_payment_request(
+  p_request_id uuid,
+  p_status text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request payment_requests%rowtype;
+begin
+  select * into v_request from payment_requests where id = p_request_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'REQUEST_NOT_FOUND');
+  end if;
+
+  if p_status = 'declined' and v_request.payer_id is distinct from auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  elsif p_status = 'cancelled' and v_request.requester_id is distinct from auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  elsif p_status not in ('declined', 'cancelled') then
+    return jsonb_build_object('success', false, 'code', 'INVALID_STATUS');
+  end if;
+
+  if v_request.status <> 'pending' then
+    return jsonb_build_object('success', false, 'code', 'REQUEST_CLOSED', 'status', v_request.status);
+  end if;
+
+  update payment_requests
+     set status = p_status,
+         responded_at = now()
+   where id = p_request_id;
+
+  return jsonb_build_object('success', true);
+end;
+$$;
+
+-- Marks overdue pending requests as expired. Safe to schedule (pg_cron)
+-- but not required: readers treat overdue pending requests as expired.
+create or replace function public.expire_payment_requests()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with expired as (
+    update payment_requests
+       set status = 'expired'
+     where status = 'pending'
+       and expires_at <= now()
+    returning 1
+  )
+  select count(*)::integer from expired;
+$$;
+
+revoke all on function public.pay_payment_request(uuid, uuid) from public;
+revoke all on function public.close_payment_request(uuid, text) from public;
+revoke all on function public.expire_payment_requests() from public;
+revoke all on function public.get_payment_request(uuid) from public;
+revoke execute on function public.expire_payment_requests() from anon, authenticated;
+grant execute on function public.get_payment_request(uuid) to authenticated;
+grant execute on function public.pay_payment_request(uuid, uuid) to authenticated;
+grant execute on function public.close_payment_request(uuid, text) to authenticated;
@@ -0,0 +1,382 @@
+-- Scheduled one-off and recurring (weekly/monthly) transfers.
+--
+-- The transfer itself moves into perform_transfer, which has no caller
+-- check and is not executable by clients. transfer_funds keeps its
+-- signature and adds the auth check on top; the scheduler calls
+-- perform_transfer directly so due items run through exactly the same
+-- path as an interactive send.
+
+-- Shared transfer path: validation, locking, idempotency and ledger posting
+create or replace function public.perform_transfer(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_receiver profiles%rowtype;
+  v_tx transactions%rowtype;
+begin
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_sender_id = p_receiver_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER');
+  end if;
+
+  -- Lock both rows in a stable order so two opposite transfers between the
+  -- same pair of users cannot deadlock
+  perform 1
+    from profiles
+   where id in (p_sender_id, p_receiver_id)
+   order by id
+     for update;
+
+  -- A replayed request returns the transfer it already created. This runs
+  -- after the row locks so two in-flight copies of one request serialize.
+  if p_idempotency_key is not null then
+    select * into v_tx
+      from transactions
+     where sender_id = p_sender_id
+       and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'transaction', to_jsonb(v_tx) || jsonb_build_object(
+          'sender_name', (select full_name from profiles where id = v_tx.sender_id),
+          'receiver_name', (select full_name from profiles where id = v_tx.receiver_id)
+        )
+      );
+    end if;
+  end if;
+
+  select * into v_sender from profiles where id = p_sender_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'SENDER_NOT_FOUND');
+  end if;
+
+  select * into v_receiver from profiles where id = p_receiver_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'RECEIVER_NOT_FOUND');
+  end if;
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'available', v_sender.balance
+    );
+  end if;
+
+  insert into transactions (sender_id, receiver_id, amount, currency, "timestamp", description, idempotency_key)
+  values (
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    coalesce(p_currency, 'PHP'),
+    now(),
+    coalesce(
+      nullif(trim(p_description), ''),
+      format('Transfer from %s to %s', v_sender.full_name, v_receiver.full_name)
+    ),
+    p_idempotency_key
+  )
+  returning * into v_tx;
+
+  -- Balances move only through the ledger: debit the sender's account and
+  -- credit the receiver's, linked to the transaction row
+  perform post_journal_entry(
+    'transfer',
+    v_tx.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(p_sender_id), 'debit', p_amount),
+      jsonb_build_object('account_id', ledger_account_for(p_receiver_id), 'credit', p_amount)
+    ),
+    v_tx.id
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'transaction', to_jsonb(v_tx) || jsonb_build_object(
+      'sender_name', v_sender.full_name,
+      'receiver_name', v_receiver.full_name
+    )
+  );
+end;
+$$;
+
+
+-- Interactive sends: the caller must be the sender
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Only the signed-in user may move money out of their own account
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  return perform_transfer(
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    p_currency,
+    p_description,
+    p_idempotency_key
+  );
+end;
+$$;
+
+revoke all on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from public;
+-- Only transfer_funds and the scheduler may call this; it does not check
+-- the caller, and Supabase grants new functions to anon and authenticated
+revoke execute on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from anon, authenticated;
+
+create table if not exists public.scheduled_transfers (
+  id uuid primary key default gen_random_uuid(),
+  sender_id uuid not null references public.profiles(id) on delete cascade,
+  receiver_id uuid not null references public.profiles(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  currency text not null default 'PHP',
+  description text,
+  frequency text not null check (frequency in ('once', 'weekly', 'monthly')),
+  -- Occurrences are start_at + run_count * period, so monthly schedules
+  -- anchored on the 31st do not drift after a short month
+  start_at timestamptz not null,
+  run_count integer not null default 0,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  status text not null default 'active'
+    check (status in ('active', 'paused', 'cancelled', 'completed', 'failed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (sender_id <> receiver_id)
+);
+
+create index if not exists scheduled_transfers_due_idx
+  on public.scheduled_transfers (next_run_at)
+  where status = 'active';
+create index if not exists scheduled_transfers_sender_idx
+  on public.scheduled_transfers (sender_id, created_at desc);
+
+-- One row per execution attempt, successful or not
+create table if not exists public.scheduled_transfer_runs (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid not null references public.scheduled_transfers(id) on delete cascade,
+  scheduled_for timestamptz not null,
+  executed_at timestamptz not null default now(),
+  status text not null check (status in ('succeeded', 'failed')),
+  transaction_id uuid references public.transactions(id),
+  error_code text,
+  error_message text
+);
+
+create index if not exists scheduled_transfer_runs_schedule_idx
+  on public.scheduled_transfer_runs (schedule_id, executed_at desc);
+
+alter table public.scheduled_transfers enable row level security;
+alter table public.scheduled_transfer_runs enable row level security;
+
+drop policy if exists "Senders manage own schedules" on public.scheduled_transfers;
+create policy "Senders manage own schedules" on public.scheduled_transfers
+  for all to authenticated
+  using (sender_id = auth.uid())
+  with check (sender_id = auth.uid());
+
+drop policy if exists "Senders read own schedule runs" on public.scheduled_transfer_runs;
+create policy "Senders read own schedule runs" on public.scheduled_transfer_runs
+  for select to authenticated using (
+    schedule_id in (select id from public.scheduled_transfers where sender_id = auth.uid())
+  );
+
+create or replace function public.scheduled_transfer_occurrence(
+  p_start_at timestamptz,
+  p_frequency text,
+  p_index integer
+)
+returns timestamptz
+language sql
+immutable
+as $$
+  select case p_frequency
+    when 'weekly' then p_start_at + p_index * interval '1 week'
+    when 'monthly' then p_start_at + p_index * interval '1 month'
+    else p_start_at
+  end;
+$$;
+
+-- First occurrence index from p_from_index on that is still in the future.
+-- A recurring schedule that fell behind (paused, or nobody ran the executor)
+-- resumes from here instead of paying every occurrence it missed.
+create or replace function public.scheduled_transfer_next_index(
+  p_start_at timestamptz,
+  p_frequency text,
+  p_from_index integer
+)
+returns integer
+language plpgsql
+stable
+as $$
+declare
+  v_index integer := p_from_index;
+begin
+  if p_frequency = 'once' then
+    return v_index;
+  end if;
+
+  while scheduled_transfer_occurrence(p_start_at, p_frequency, v_index) <= now() loop
+    v_index := v_index + 1;
+  end loop;
+
+  return v_index;
+end;
+$$;
+
+-- Changing the start date or frequency re-anchors the schedule at its
+-- first future occurrence under the new timing; resuming a paused schedule
+-- skips the occurrences it missed while paused
+create or replace function public.scheduled_transfers_skip_missed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.start_at is distinct from old.start_at
+     or new.frequency is distinct from old.frequency then
+    new.run_count := scheduled_transfer_next_index(new.start_at, new.frequency, 0);
+    new.next_run_at := scheduled_transfer_occurrence(new.start_at, new.frequency, new.run_count);
+  elsif old.status = 'paused' and new.status = 'active' then
+    new.run_count := scheduled_transfer_next_index(new.start_at, new.frequency, new.run_count);
+    new.next_run_at := scheduled_transfer_occurrence(new.start_at, new.frequency, new.run_count);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists scheduled_transfers_skip_missed on public.scheduled_transfers;
+create trigger scheduled_transfers_skip_missed
+  before update of status, start_at, frequency on public.scheduled_transfers
+  for each row execute function public.scheduled_transfers_skip_missed();
+
+-- Executes every due active schedule. The service role or a pg_cron job
+-- runs all senders; a signed-in user may only run their own.
+-- Each occurrence uses a deterministic idempotency key, so running the
+-- executor twice for the same occurrence never pays twice.
+create or replace function public.run_due_scheduled_transfers(p_sender_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_schedule scheduled_transfers%rowtype;
+  v_result jsonb;
+  v_succeeded boolean;
+  v_next_index integer;
+  v_processed integer := 0;
+begin
+  -- Only the service role, or pg_cron (which runs without a JWT and so
+  -- without a role), may run everything; anyone else only their own
+  if p_sender_id is null then
+    if coalesce(auth.role(), 'service_role') <> 'service_role' then
+      raise exception 'not allowed to run these schedules';
+    end if;
+  elsif p_sender_id is distinct from auth.uid() then
+    raise exception 'not allowed to run these schedules';
+  end if;
+
+  for v_schedule in
+    select *
+      from scheduled_transfers
+     where status = 'active'
+       and next_run_at <= now()
+       and (p_sender_id is null or sender_id = p_sender_id)
+     order by next_run_at
+       for update skip locked
+  loop
+    v_result := perform_transfer(
+      v_schedule.sender_id,
+      v_schedule.receiver_id,
+      v_schedule.amount,
+      v_schedule.currency,
+      coalesce(v_schedule.description, 'Scheduled transfer'),
+      md5(v_schedule.id::text || extract(epoch from v_schedule.next_run_at)::text)::uuid
+    );
+    v_succeeded := coalesce((v_result ->> 'success')::boolean, false);
+
+    insert into scheduled_transfer_runs (
+      schedule_id, scheduled_for, status, transaction_id, error_code, error_message
+    )
+    values (
+      v_schedule.id,
+      v_schedule.next_run_at,
+      case when v_succeeded then 'succeeded' else 'failed' end,
+      (v_result -> 'transaction' ->> 'id')::uuid,
+      v_result ->> 'code',
+      case v_result ->> 'code'
+        when 'INSUFFICIENT_FUNDS' then format(
+          'Insufficient balance: needed %s, available %s',
+          v_schedule.amount, v_result ->> 'available'
+        )
+        when 'RECEIVER_NOT_FOUND' then 'Recipient account no longer exists'
+        else null
+      end
+    );
+
+    -- A failed one-off stays visible as failed; recurring schedules move on
+    -- to their next future occurrence and the failure remains in the run
+    -- history. Only the oldest missed occurrence is paid when catching up.
+    v_next_index := scheduled_transfer_next_index(
+      v_schedule.start_at, v_schedule.frequency, v_schedule.run_count + 1
+    );
+
+    update scheduled_transfers
+       set run_count = v_next_index,
+           last_run_at = now(),
+           next_run_at = scheduled_transfer_occurrence(start_at, frequency, v_next_index),
+           status = case
+             when frequency = 'once' and v_succeeded then 'completed'
+             when frequency = 'once' then 'failed'
+             else status
+           end,
+           updated_at = now()
+     where id = v_schedule.id;
+
+    v_processed := v_processed + 1;
+  end loop;
+
+  return v_processed;
+end;
+$$;
+
+revoke all on function public.scheduled_transfer_occurrence(timestamptz, text, integer) from public;
+revoke all on function public.scheduled_transfer_next_index(timestamptz, text, integer) from public;
+revoke all on function public.run_due_scheduled_transfers(uuid) from public;
+revoke execute on function public.run_due_scheduled_transfers(uuid) from anon;
+grant execute on function public.run_due_scheduled_transfers(uuid) to authenticated, service_role;
+
+-- With pg_cron enabled, run the executor every five minutes:
+--   select cron.schedule('run-scheduled-transfers', '*/5 * * * *',
+--     $$select public.run_due_scheduled_transfers()$$);
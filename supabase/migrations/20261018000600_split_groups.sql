@@ -0,0 +1,212 @@
+-- Split-bill groups. Members log shared expenses; the app derives who owes
+-- whom and each suggested settlement is paid through transfer_funds, then
+-- recorded here with a link to the resulting transactions row.
+
+create table if not exists public.expense_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.expense_group_members (
+  group_id uuid not null references public.expense_groups(id) on delete cascade,
+  profile_id uuid not null references public.profiles(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (group_id, profile_id)
+);
+
+create index if not exists expense_group_members_profile_idx
+  on public.expense_group_members (profile_id);
+
+create table if not exists public.group_expenses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.expense_groups(id) on delete cascade,
+  paid_by uuid not null references public.profiles(id),
+  amount numeric not null check (amount > 0),
+  description text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists group_expenses_group_idx
+  on public.group_expenses (group_id, created_at desc);
+
+-- How much of an expense each member is responsible for
+create table if not exists public.group_expense_shares (
+  expense_id uuid not null references public.group_expenses(id) on delete cascade,
+  profile_id uuid not null references public.profiles(id),
+  amount numeric not null check (amount >= 0),
+  primary key (expense_id, profile_id)
+);
+
+create table if not exists public.group_settlements (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.expense_groups(id) on delete cascade,
+  from_profile_id uuid not null references public.profiles(id),
+  to_profile_id uuid not null references public.profiles(id),
+  amount numeric not null check (amount > 0),
+  transaction_id uuid not null unique references public.transactions(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists group_settlements_group_idx
+  on public.group_settlements (group_id, created_at desc);
+
+-- Membership check used by the policies below. security definer so the
+-- members policy can call it without recursing into itself.
+create or replace function public.is_group_member(p_group_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from expense_group_members
+     where group_id = p_group_id
+       and profile_id = auth.uid()
+  );
+$$;
+
+alter table public.expense_groups enable row level security;
+alter table public.expense_group_members enable row level security;
+alter table public.group_expenses enable row level security;
+alter table public.group_expense_shares enable row level security;
+alter table public.group_settlements enable row level security;
+
+drop policy if exists "Members read groups" on public.expense_groups;
+create policy "Members read groups" on public.expense_groups
+  for select to authenticated using (created_by = auth.uid() or public.is_group_member(id));
+
+drop policy if exists "Users create groups" on public.expense_groups;
+create policy "Users create groups" on public.expense_groups
+  for insert to authenticated with check (created_by = auth.uid());
+
+drop policy if exists "Members read members" on public.expense_group_members;
+create policy "Members read members" on public.expense_group_members
+  for select to authenticated using (public.is_group_member(group_id));
+
+-- The creator seeds the group; after that any member may add people
+drop policy if exists "Members add members" on public.expense_group_members;
+create policy "Members add members" on public.expense_group_members
+  for insert to authenticated with check (
+    public.is_group_member(group_id)
+    or exists (
+      select 1 from public.expense_groups g
+       where g.id = group_id and g.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists "Members read expenses" on public.group_expenses;
+create policy "Members read expenses" on public.group_expenses
+  for select to authenticated using (public.is_group_member(group_id));
+
+drop policy if exists "Members read shares" on public.group_expense_shares;
+create policy "Members read shares" on public.group_expense_shares
+  for select to authenticated using (
+    exists (
+      select 1 from public.group_expenses e
+       where e.id = expense_id and public.is_group_member(e.group_id)
+    )
+  );
+
+drop policy if exists "Members read settlements" on public.group_settlements;
+create policy "Members read settlements" on public.group_settlements
+  for select to authenticated using (public.is_group_member(group_id));
+
+-- A settlement may only be recorded by its payer, against a transfer
+-- that actually moved that amount between the two members
+drop policy if exists "Payers record settlements" on public.group_settlements;
+create policy "Payers record settlements" on public.group_settlements
+  for insert to authenticated with check (
+    from_profile_id = auth.uid()
+    and public.is_group_member(group_id)
+    and exists (
+      select 1 from public.transactions t
+       where t.id = transaction_id
+         and t.sender_id = from_profile_id
+         and t.receiver_id = to_profile_id
+         and t.amount = group_settlements.amount
+    )
+  );
+
+-- add_group_expense is the only write path for expenses and shares, so
+-- neither table has an insert policy
+drop policy if exists "Members log expenses" on public.group_expenses;
+drop policy if exists "Members add shares" on public.group_expense_shares;
+
+-- Logs an expense and its shares in one transaction. The caller and the
+-- payer must be members, every share must belong to a member, and the
+-- shares must add up to the amount.
+create or replace function public.add_group_expense(
+  p_group_id uuid,
+  p_paid_by uuid,
+  p_amount numeric,
+  p_description text,
+  p_shares jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense group_expenses%rowtype;
+begin
+  if not is_group_member(p_group_id) then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if not exists (
+    select 1 from expense_group_members
+     where group_id = p_group_id and profile_id = p_paid_by
+  ) then
+    return jsonb_build_object('success', false, 'code', 'PAYER_NOT_MEMBER');
+  end if;
+
+  if jsonb_typeof(p_shares) is distinct from 'array' or jsonb_array_length(p_shares) = 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_SHARES');
+  end if;
+
+  if exists (
+    select 1
+      from jsonb_to_recordset(p_shares) as s(profile_id uuid, amount numeric)
+     where s.amount is null
+        or s.amount < 0
+        or not exists (
+          select 1 from expense_group_members m
+           where m.group_id = p_group_id and m.profile_id = s.profile_id
+        )
+  ) or (
+    select sum(s.amount)
+      from jsonb_to_recordset(p_shares) as s(profile_id uuid, amount numeric)
+  ) <> p_amount then
+    return jsonb_build_object('success', false, 'code', 'INVALID_SHARES');
+  end if;
+
+  insert into group_expenses (group_id, paid_by, amount, description)
+  values (
+    p_group_id,
+    p_paid_by,
+    p_amount,
+    coalesce(nullif(trim(p_description), ''), 'Shared expense')
+  )
+  returning * into v_expense;
+
+  insert into group_expense_shares (expense_id, profile_id, amount)
+  select v_expense.id, s.profile_id, s.amount
+    from jsonb_to_recordset(p_shares) as s(profile_id uuid, amount numeric);
+
+  return jsonb_build_object('success', true, 'expense', to_jsonb(v_expense));
+end;
+$$;
+
+revoke all on function public.is_group_member(uuid) from public;
+revoke all on function public.add_group_expense(uuid, uuid, numeric, text, jsonb) from public;
+grant execute on function public.is_group_member(uuid) to authenticated;
+grant execute on function public.add_group_expense(uuid, uuid, numeric, text, jsonb) to authenticated;
@@ -0,0 +1,35 @@
+-- Receipt verification: anyone holding a transaction id (shared on a
+-- receipt) can confirm the transfer exists and see what the receipt shows.
+-- Transaction ids are random UUIDs, so this only reveals transfers whose
+-- receipt a party chose to share. Balances are never exposed.
+
+create or replace function public.verify_transaction(p_transaction_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select jsonb_build_object(
+        'found', true,
+        'transaction_id', t.id,
+        'amount', t.amount,
+        'currency', t.currency,
+        'timestamp', t.timestamp,
+        'description', t.description,
+        'sender', jsonb_build_object('full_name', s.full_name, 'username', s.username),
+        'receiver', jsonb_build_object('full_name', r.full_name, 'username', r.username)
+      )
+      from transactions t
+      join profiles s on s.id = t.sender_id
+      join profiles r on r.id = t.receiver_id
+      where t.id = p_transaction_id
+    ),
+    jsonb_build_object('found', false)
+  );
+$$;
+
+revoke all on function public.verify_transaction(uuid) from public;
+grant execute on function public.verify_transaction(uuid) to anon, authenticated;
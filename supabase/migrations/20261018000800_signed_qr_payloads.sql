@@ -0,0 +1,129 @@
+-- Signed, expiring payment QR payloads (format v2).
+-- The server signs what the receiver asked for (account, optional amount
+-- and memo, expiry) with an HMAC key that never leaves the database, and
+-- the scanner asks the server to check the signature before paying.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- Server-only secrets. RLS with no policies plus revoked grants keeps
+-- these unreadable from the API; only security definer functions use them.
+create table if not exists public.app_secrets (
+  name text primary key,
+  value text not null
+);
+
+alter table public.app_secrets enable row level security;
+revoke all on public.app_secrets from anon, authenticated;
+
+insert into public.app_secrets (name, value)
+values ('qr_signing_key', encode(extensions.gen_random_bytes(32), 'hex'))
+on conflict (name) do nothing;
+
+-- Signature over the normalised fields. jsonb text output is deterministic
+-- and the amount is re-scaled, so the payload survives a JSON round trip
+-- through the client (100.50 -> 100.5) and still verifies.
+create or replace function public.payment_qr_signature(p_payload jsonb)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select encode(
+    extensions.hmac(
+      jsonb_build_object(
+        'v', (p_payload->>'v')::integer,
+        'userId', p_payload->>'userId',
+        'username', p_payload->>'username',
+        'amount', round((p_payload->>'amount')::numeric, 2),
+        'memo', p_payload->>'memo',
+        'iat', (p_payload->>'iat')::bigint,
+        'exp', (p_payload->>'exp')::bigint
+      )::text,
+      (select value from app_secrets where name = 'qr_signing_key'),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- Builds and signs a receive payload for the signed-in user
+create or replace function public.sign_payment_qr(
+  p_amount numeric default null,
+  p_memo text default null,
+  p_ttl_seconds integer default 86400
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_username text;
+  v_now bigint := floor(extract(epoch from now()));
+  v_payload jsonb;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_amount is not null and p_amount <= 0 then
+    raise exception 'Amount must be greater than zero';
+  end if;
+
+  select username into v_username from profiles where id = auth.uid();
+
+  -- Between one minute and thirty days
+  p_ttl_seconds := least(greatest(coalesce(p_ttl_seconds, 86400), 60), 2592000);
+
+  v_payload := jsonb_strip_nulls(jsonb_build_object(
+    'type', 'lapore-finance-transfer',
+    'v', 2,
+    'userId', auth.uid(),
+    'username', v_username,
+    'amount', round(p_amount, 2),
+    'memo', nullif(left(trim(p_memo), 140), ''),
+    'iat', v_now,
+    'exp', v_now + p_ttl_seconds
+  ));
+
+  return v_payload || jsonb_build_object('sig', payment_qr_signature(v_payload));
+end;
+$$;
+
+-- Checks a scanned payload. Returns { valid, code } where code is
+-- INVALID_SIGNATURE or QR_EXPIRED when the payload is rejected.
+create or replace function public.verify_payment_qr(p_payload jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_payload->>'sig' is null
+     or p_payload->>'sig' is distinct from payment_qr_signature(p_payload) then
+    return jsonb_build_object('valid', false, 'code', 'INVALID_SIGNATURE');
+  end if;
+
+  if (p_payload->>'exp')::bigint <= floor(extract(epoch from now())) then
+    return jsonb_build_object('valid', false, 'code', 'QR_EXPIRED');
+  end if;
+
+  return jsonb_build_object('valid', true);
+exception
+  when invalid_text_representation or numeric_value_out_of_range then
+    -- Non-numeric amount/iat/exp: the payload was edited by hand
+    return jsonb_build_object('valid', false, 'code', 'INVALID_SIGNATURE');
+end;
+$$;
+
+revoke all on function public.payment_qr_signature(jsonb) from public;
+revoke all on function public.sign_payment_qr(numeric, text, integer) from public;
+revoke all on function public.verify_payment_qr(jsonb) from public;
+-- Signs arbitrary payloads, so it must not be callable by clients; Supabase
+-- grants new functions to anon and authenticated by default
+revoke execute on function public.payment_qr_signature(jsonb) from anon, authenticated;
+grant execute on function public.sign_payment_qr(numeric, text, integer) to authenticated;
+grant execute on function public.verify_payment_qr(jsonb) to authenticated;
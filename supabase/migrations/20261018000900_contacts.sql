@@ -0,0 +1,39 @@
+-- Address book: recipients a user has saved, optionally with a nickname
+-- and marked as a favorite. Recent recipients come from transactions,
+-- so only explicitly saved people live here.
+
+create table if not exists public.contacts (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references public.profiles(id) on delete cascade,
+  contact_id uuid not null references public.profiles(id) on delete cascade,
+  nickname text check (char_length(nickname) <= 40),
+  is_favorite boolean not null default false,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  unique (owner_id, contact_id),
+  check (owner_id <> contact_id)
+);
+
+create index if not exists contacts_owner_idx
+  on public.contacts (owner_id, is_favorite desc, last_used_at desc nulls last);
+
+alter table public.contacts enable row level security;
+
+-- Contacts are private to their owner
+drop policy if exists "Owners read contacts" on public.contacts;
+create policy "Owners read contacts" on public.contacts
+  for select to authenticated using (owner_id = auth.uid());
+
+drop policy if exists "Owners create contacts" on public.contacts;
+create policy "Owners create contacts" on public.contacts
+  for insert to authenticated with check (owner_id = auth.uid());
+
+drop policy if exists "Owners update contacts" on public.contacts;
+create policy "Owners update contacts" on public.contacts
+  for update to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners delete contacts" on public.contacts;
+create policy "Owners delete contacts" on public.contacts
+  for delete to authenticated using (owner_id = auth.uid());
@@ -0,0 +1,261 @@
+-- Transfer limits and velocity controls.
+--
+-- Each profile has a limit tier; a tier caps a single transfer and the
+-- total sent per calendar day and per calendar month (Asia/Manila time).
+-- perform_transfer checks the limits while it holds the sender's row
+-- lock, so concurrent sends cannot slip past a cap together. Every path
+-- that moves money out of an account (sends, payment requests, scheduled
+-- transfers, group settlements) goes through it.
+
+create table if not exists public.transfer_limit_tiers (
+  tier text primary key,
+  per_transaction numeric not null check (per_transaction > 0),
+  daily numeric not null check (daily > 0),
+  monthly numeric not null check (monthly > 0),
+  check (per_transaction <= daily and daily <= monthly)
+);
+
+alter table public.transfer_limit_tiers enable row level security;
+
+drop policy if exists "Anyone signed in reads limit tiers" on public.transfer_limit_tiers;
+create policy "Anyone signed in reads limit tiers" on public.transfer_limit_tiers
+  for select to authenticated using (true);
+
+insert into public.transfer_limit_tiers (tier, per_transaction, daily, monthly)
+values
+  ('basic', 10000, 20000, 100000),
+  ('verified', 50000, 100000, 500000)
+on conflict (tier) do nothing;
+
+alter table public.profiles
+  add column if not exists limit_tier text not null default 'basic'
+    references public.transfer_limit_tiers(tier);
+
+-- Users may create and update their own profile, but not pick their own
+-- tier; only the service role (admin tooling, verification flows) can set it
+create or replace function public.profiles_guard_limit_tier()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') in ('anon', 'authenticated')
+     and new.limit_tier is distinct from
+       case when tg_op = 'INSERT' then 'basic' else old.limit_tier end then
+    raise exception 'limit_tier can only be changed by an administrator';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_limit_tier on public.profiles;
+create trigger profiles_guard_limit_tier
+  before insert or update of limit_tier on public.profiles
+  for each row execute function public.profiles_guard_limit_tier();
+
+create index if not exists transactions_sender_timestamp_idx
+  on public.transactions (sender_id, "timestamp");
+
+-- Limits and what has been used so far in the current day and month
+create or replace function public.transfer_limit_usage(p_profile_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_limits transfer_limit_tiers%rowtype;
+  v_local timestamp := now() at time zone 'Asia/Manila';
+  v_day_start timestamptz := date_trunc('day', v_local) at time zone 'Asia/Manila';
+  v_month_start timestamptz := date_trunc('month', v_local) at time zone 'Asia/Manila';
+  v_daily_used numeric;
+  v_monthly_used numeric;
+begin
+  select t.* into v_limits
+    from profiles p
+    join transfer_limit_tiers t on t.tier = p.limit_tier
+   where p.id = p_profile_id;
+
+  if not found then
+    return null;
+  end if;
+
+  select coalesce(sum(amount) filter (where "timestamp" >= v_day_start), 0),
+         coalesce(sum(amount), 0)
+    into v_daily_used, v_monthly_used
+    from transactions
+   where sender_id = p_profile_id
+     and "timestamp" >= v_month_start;
+
+  return jsonb_build_object(
+    'tier', v_limits.tier,
+    'per_transaction', v_limits.per_transaction,
+    'daily_limit', v_limits.daily,
+    'daily_used', v_daily_used,
+    'daily_remaining', greatest(v_limits.daily - v_daily_used, 0),
+    'monthly_limit', v_limits.monthly,
+    'monthly_used', v_monthly_used,
+    'monthly_remaining', greatest(v_limits.monthly - v_monthly_used, 0)
+  );
+end;
+$$;
+
+-- The signed-in user's limits, shown in the send flow
+create or replace function public.get_transfer_limits()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select transfer_limit_usage(auth.uid());
+$$;
+
+-- Shared transfer path, now enforcing the sender's limits
+create or replace function public.perform_transfer(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_receiver profiles%rowtype;
+  v_tx transactions%rowtype;
+  v_usage jsonb;
+begin
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_sender_id = p_receiver_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER');
+  end if;
+
+  -- Lock both rows in a stable order so two opposite transfers between the
+  -- same pair of users cannot deadlock
+  perform 1
+    from profiles
+   where id in (p_sender_id, p_receiver_id)
+   order by id
+     for update;
+
+  -- A replayed request returns the transfer it already created. This runs
+  -- after the row locks so two in-flight copies of one request serialize.
+  if p_idempotency_key is not null then
+    select * into v_tx
+      from transactions
+     where sender_id = p_sender_id
+       and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'transaction', to_jsonb(v_tx) || jsonb_build_object(
+          'sender_name', (select full_name from profiles where id = v_tx.sender_id),
+          'receiver_name', (select full_name from profiles where id = v_tx.receiver_id)
+        )
+      );
+    end if;
+  end if;
+
+  select * into v_sender from profiles where id = p_sender_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'SENDER_NOT_FOUND');
+  end if;
+
+  select * into v_receiver from profiles where id = p_receiver_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'RECEIVER_NOT_FOUND');
+  end if;
+
+  -- Usage is read under the sender's row lock, so it cannot change until
+  -- this transfer commits
+  v_usage := transfer_limit_usage(p_sender_id);
+
+  if p_amount > (v_usage->>'per_transaction')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'per_transaction',
+      'remaining', (v_usage->>'per_transaction')::numeric
+    );
+  end if;
+
+  if p_amount > (v_usage->>'daily_remaining')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'daily',
+      'remaining', (v_usage->>'daily_remaining')::numeric
+    );
+  end if;
+
+  if p_amount > (v_usage->>'monthly_remaining')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'monthly',
+      'remaining', (v_usage->>'monthly_remaining')::numeric
+    );
+  end if;
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'available', v_sender.balance
+    );
+  end if;
+
+  insert into transactions (sender_id, receiver_id, amount, currency, "timestamp", description, idempotency_key)
+  values (
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    coalesce(p_currency, 'PHP'),
+    now(),
+    coalesce(
+      nullif(trim(p_description), ''),
+      format('Transfer from %s to %s', v_sender.full_name, v_receiver.full_name)
+    ),
+    p_idempotency_key
+  )
+  returning * into v_tx;
+
+  -- Balances move only through the ledger: debit the sender's account and
+  -- credit the receiver's, linked to the transaction row
+  perform post_journal_entry(
+    'transfer',
+    v_tx.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(p_sender_id), 'debit', p_amount),
+      jsonb_build_object('account_id', ledger_account_for(p_receiver_id), 'credit', p_amount)
+    ),
+    v_tx.id
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'transaction', to_jsonb(v_tx) || jsonb_build_object(
+      'sender_name', v_sender.full_name,
+      'receiver_name', v_receiver.full_name
+    )
+  );
+end;
+$$;
+
+revoke all on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from public;
+revoke execute on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from anon, authenticated;
+revoke all on function public.transfer_limit_usage(uuid) from public;
+revoke execute on function public.transfer_limit_usage(uuid) from anon, authenticated;
+revoke all on function public.get_transfer_limits() from public;
+grant execute on function public.get_transfer_limits() to authenticated;
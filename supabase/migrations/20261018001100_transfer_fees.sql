@@ -0,0 +1,260 @@
+-- Transfer fees.
+--
+-- fee_rules is the fee schedule. A rule covers an amount bracket in one
+-- currency and charges a flat fee plus a percentage of the amount,
+-- clamped to [min_fee, max_fee]. Tiered pricing is several rules with
+-- adjacent brackets. The active rule with the highest priority whose
+-- bracket contains the amount applies; no matching rule means no fee.
+--
+-- The sender pays amount + fee. The fee is posted as its own journal
+-- entry on the transaction, crediting the system:fees house account.
+--
+-- Example schedule (free under 1,000; 0.5% above, between 5 and 50):
+--   insert into fee_rules (name, min_amount, max_amount) values ('Small transfers', 0, 1000);
+--   insert into fee_rules (name, min_amount, percentage, min_fee, max_fee)
+--   values ('Standard', 1000, 0.005, 5, 50);
+
+create table if not exists public.fee_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  currency text not null default 'PHP',
+  min_amount numeric not null default 0 check (min_amount >= 0), -- inclusive
+  max_amount numeric, -- exclusive; null means no upper bound
+  flat_fee numeric not null default 0 check (flat_fee >= 0),
+  percentage numeric not null default 0 check (percentage >= 0 and percentage < 1), -- 0.005 = 0.5%
+  min_fee numeric not null default 0 check (min_fee >= 0),
+  max_fee numeric,
+  priority integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (max_amount is null or max_amount > min_amount),
+  check (max_fee is null or max_fee >= min_fee)
+);
+
+alter table public.fee_rules enable row level security;
+
+-- Fees are public so the send flow can explain them
+drop policy if exists "Anyone signed in reads active fee rules" on public.fee_rules;
+create policy "Anyone signed in reads active fee rules" on public.fee_rules
+  for select to authenticated using (active);
+
+alter table public.transactions
+  add column if not exists fee numeric not null default 0 check (fee >= 0);
+
+insert into public.ledger_accounts (code, kind)
+values ('system:fees', 'system')
+on conflict (code) do nothing;
+
+-- Fee for a transfer of p_amount: { fee, rule_id, rule_name }
+create or replace function public.calculate_transfer_fee(
+  p_amount numeric,
+  p_currency text default 'PHP'
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_rule fee_rules%rowtype;
+  v_fee numeric;
+begin
+  select * into v_rule
+    from fee_rules
+   where active
+     and currency = coalesce(p_currency, 'PHP')
+     and p_amount >= min_amount
+     and (max_amount is null or p_amount < max_amount)
+   order by priority desc, min_amount desc
+   limit 1;
+
+  if not found then
+    return jsonb_build_object('fee', 0);
+  end if;
+
+  v_fee := greatest(v_rule.flat_fee + p_amount * v_rule.percentage, v_rule.min_fee);
+  if v_rule.max_fee is not null then
+    v_fee := least(v_fee, v_rule.max_fee);
+  end if;
+
+  return jsonb_build_object(
+    'fee', round(v_fee, 2),
+    'rule_id', v_rule.id,
+    'rule_name', v_rule.name
+  );
+end;
+$$;
+
+-- Shared transfer path, now charging the fee on top of the amount
+create or replace function public.perform_transfer(
+  p_sender_id uuid,
+  p_receiver_id uuid,
+  p_amount numeric,
+  p_currency text default 'PHP',
+  p_description text default null,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_receiver profiles%rowtype;
+  v_tx transactions%rowtype;
+  v_usage jsonb;
+  v_fee numeric;
+begin
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_sender_id = p_receiver_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER');
+  end if;
+
+  -- Balances, limits and fees are all in PHP; any other currency would move
+  -- the PHP ledger without matching a fee rule
+  if coalesce(p_currency, 'PHP') <> 'PHP' then
+    return jsonb_build_object('success', false, 'code', 'UNSUPPORTED_CURRENCY');
+  end if;
+
+  -- Lock both rows in a stable order so two opposite transfers between the
+  -- same pair of users cannot deadlock
+  perform 1
+    from profiles
+   where id in (p_sender_id, p_receiver_id)
+   order by id
+     for update;
+
+  -- A replayed request returns the transfer it already created. This runs
+  -- after the row locks so two in-flight copies of one request serialize.
+  if p_idempotency_key is not null then
+    select * into v_tx
+      from transactions
+     where sender_id = p_sender_id
+       and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'transaction', to_jsonb(v_tx) || jsonb_build_object(
+          'sender_name', (select full_name from profiles where id = v_tx.sender_id),
+          'receiver_name', (select full_name from profiles where id = v_tx.receiver_id)
+        )
+      );
+    end if;
+  end if;
+
+  select * into v_sender from profiles where id = p_sender_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'SENDER_NOT_FOUND');
+  end if;
+
+  select * into v_receiver from profiles where id = p_receiver_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'RECEIVER_NOT_FOUND');
+  end if;
+
+  -- Usage is read under the sender's row lock, so it cannot change until
+  -- this transfer commits
+  v_usage := transfer_limit_usage(p_sender_id);
+
+  if p_amount > (v_usage->>'per_transaction')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'per_transaction',
+      'remaining', (v_usage->>'per_transaction')::numeric
+    );
+  end if;
+
+  if p_amount > (v_usage->>'daily_remaining')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'daily',
+      'remaining', (v_usage->>'daily_remaining')::numeric
+    );
+  end if;
+
+  if p_amount > (v_usage->>'monthly_remaining')::numeric then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'LIMIT_EXCEEDED',
+      'limit', 'monthly',
+      'remaining', (v_usage->>'monthly_remaining')::numeric
+    );
+  end if;
+
+  -- Limits apply to the amount sent; the fee comes on top of it
+  v_fee := (calculate_transfer_fee(p_amount, p_currency)->>'fee')::numeric;
+
+  if v_sender.balance < p_amount + v_fee then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'available', v_sender.balance,
+      'fee', v_fee
+    );
+  end if;
+
+  insert into transactions (sender_id, receiver_id, amount, fee, currency, "timestamp", description, idempotency_key)
+  values (
+    p_sender_id,
+    p_receiver_id,
+    p_amount,
+    v_fee,
+    coalesce(p_currency, 'PHP'),
+    now(),
+    coalesce(
+      nullif(trim(p_description), ''),
+      format('Transfer from %s to %s', v_sender.full_name, v_receiver.full_name)
+    ),
+    p_idempotency_key
+  )
+  returning * into v_tx;
+
+  -- Balances move only through the ledger: debit the sender's account and
+  -- credit the receiver's, linked to the transaction row
+  perform post_journal_entry(
+    'transfer',
+    v_tx.description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(p_sender_id), 'debit', p_amount),
+      jsonb_build_object('account_id', ledger_account_for(p_receiver_id), 'credit', p_amount)
+    ),
+    v_tx.id
+  );
+
+  -- The fee is its own entry on the same transaction: a second debit from
+  -- the sender, credited to the house account
+  if v_fee > 0 then
+    perform post_journal_entry(
+      'transfer_fee',
+      format('Transfer fee: %s', v_tx.description),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_for(p_sender_id), 'debit', v_fee),
+        jsonb_build_object('account_id', ledger_system_account('system:fees'), 'credit', v_fee)
+      ),
+      v_tx.id
+    );
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'transaction', to_jsonb(v_tx) || jsonb_build_object(
+      'sender_name', v_sender.full_name,
+      'receiver_name', v_receiver.full_name
+    )
+  );
+end;
+$$;
+
+revoke all on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from public;
+revoke execute on function public.perform_transfer(uuid, uuid, numeric, text, text, uuid) from anon, authenticated;
+revoke all on function public.calculate_transfer_fee(numeric, text) from public;
+grant execute on function public.calculate_transfer_fee(numeric, text) to authenticated;
@@ -0,0 +1,374 @@
+-- Swaps between crypto holdings, executed server-side at a quoted rate.
+--
+-- crypto_assets holds each user's balances. It used to be writable from
+-- the client; holdings now change only through the security definer
+-- functions below, and every movement is recorded in crypto_transactions.
+--
+-- crypto_prices is the server's price list and the only source quotes are
+-- priced from. A scheduled job (service role) keeps it fresh by calling
+-- record_crypto_prices with the latest CoinGecko USD prices; quotes refuse
+-- prices older than two minutes rather than trade on stale data.
+
+create table if not exists public.crypto_assets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  coin_id text,
+  symbol text not null,
+  name text,
+  amount numeric not null default 0 check (amount >= 0),
+  purchase_price_usd numeric not null default 0, -- Average cost per unit
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, symbol)
+);
+
+alter table public.crypto_assets enable row level security;
+
+drop policy if exists "Owners read crypto assets" on public.crypto_assets;
+create policy "Owners read crypto assets" on public.crypto_assets
+  for select to authenticated using (user_id = auth.uid());
+
+revoke insert, update, delete on public.crypto_assets from anon, authenticated;
+
+create table if not exists public.crypto_prices (
+  symbol text primary key,
+  name text not null,
+  coin_id text not null, -- CoinGecko id
+  price_usd numeric check (price_usd > 0),
+  updated_at timestamptz
+);
+
+alter table public.crypto_prices enable row level security;
+
+drop policy if exists "Anyone signed in reads crypto prices" on public.crypto_prices;
+create policy "Anyone signed in reads crypto prices" on public.crypto_prices
+  for select to authenticated using (true);
+
+insert into public.crypto_prices (symbol, name, coin_id)
+values
+  ('BTC', 'Bitcoin', 'bitcoin'),
+  ('ETH', 'Ethereum', 'ethereum'),
+  ('SOL', 'Solana', 'solana'),
+  ('USDC', 'USD Coin', 'usd-coin'),
+  ('USDT', 'Tether', 'tether'),
+  ('WBTC', 'Wrapped Bitcoin', 'wrapped-bitcoin'),
+  ('RAY', 'Raydium', 'raydium'),
+  ('ORCA', 'Orca', 'orca')
+on conflict (symbol) do nothing;
+
+-- Every change to a user's holdings. Swaps fill both legs; later kinds
+-- may only have one.
+create table if not exists public.crypto_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('swap')),
+  from_symbol text,
+  from_amount numeric check (from_amount > 0),
+  to_symbol text,
+  to_amount numeric check (to_amount > 0),
+  rate numeric not null, -- to units per from unit, before the fee
+  fee_amount numeric not null default 0 check (fee_amount >= 0),
+  fee_symbol text,
+  from_price_usd numeric,
+  to_price_usd numeric,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists crypto_transactions_user_idx
+  on public.crypto_transactions (user_id, created_at desc);
+
+alter table public.crypto_transactions enable row level security;
+
+drop policy if exists "Owners read crypto transactions" on public.crypto_transactions;
+create policy "Owners read crypto transactions" on public.crypto_transactions
+  for select to authenticated using (user_id = auth.uid());
+
+-- The swap fee is kept back from the received asset. The house's share of
+-- each asset accumulates here so the fee is accounted for rather than
+-- vanishing; only the security definer functions write it.
+create table if not exists public.crypto_fee_balances (
+  symbol text primary key references public.crypto_prices(symbol),
+  amount numeric not null default 0 check (amount >= 0),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.crypto_fee_balances enable row level security;
+revoke all on public.crypto_fee_balances from anon, authenticated;
+
+-- A priced offer for one swap. Executing it trades at exactly these
+-- amounts, so it is short-lived and single-use.
+create table if not exists public.swap_quotes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  from_symbol text not null references public.crypto_prices(symbol),
+  to_symbol text not null references public.crypto_prices(symbol),
+  from_amount numeric not null check (from_amount > 0),
+  to_amount numeric not null check (to_amount > 0),
+  rate numeric not null,
+  fee_amount numeric not null default 0,
+  from_price_usd numeric not null,
+  to_price_usd numeric not null,
+  expires_at timestamptz not null,
+  executed_at timestamptz,
+  transaction_id uuid references public.crypto_transactions(id),
+  created_at timestamptz not null default now(),
+  check (from_symbol <> to_symbol)
+);
+
+alter table public.swap_quotes enable row level security;
+
+drop policy if exists "Owners read swap quotes" on public.swap_quotes;
+create policy "Owners read swap quotes" on public.swap_quotes
+  for select to authenticated using (user_id = auth.uid());
+
+-- Price feed entry point: p_prices is { "BTC": 98500.12, ... }
+create or replace function public.record_crypto_prices(p_prices jsonb)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update crypto_prices c
+     set price_usd = (p.value #>> '{}')::numeric,
+         updated_at = now()
+    from jsonb_each(p_prices) as p
+   where c.symbol = upper(p.key)
+     and (p.value #>> '{}')::numeric > 0;
+$$;
+
+-- Current USD price, or null when the asset is unknown or the price is stale
+create or replace function public.crypto_price(p_symbol text)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select price_usd
+    from crypto_prices
+   where symbol = upper(p_symbol)
+     and updated_at > now() - interval '2 minutes';
+$$;
+
+-- Adds to a holding and folds the cost into its average purchase price
+create or replace function public.credit_crypto_asset(
+  p_user_id uuid,
+  p_symbol text,
+  p_amount numeric,
+  p_cost_usd numeric
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into crypto_assets (user_id, symbol, coin_id, name, amount, purchase_price_usd)
+  select p_user_id, c.symbol, c.coin_id, c.name, p_amount, p_cost_usd / p_amount
+    from crypto_prices c
+   where c.symbol = upper(p_symbol)
+  on conflict (user_id, symbol) do update
+    set purchase_price_usd = (crypto_assets.amount * crypto_assets.purchase_price_usd + p_cost_usd)
+                             / (crypto_assets.amount + excluded.amount),
+        amount = crypto_assets.amount + excluded.amount,
+        updated_at = now();
+end;
+$$;
+
+-- Takes from a holding (already locked by the caller). Selling does not
+-- change the average cost of what is left.
+create or replace function public.debit_crypto_asset(
+  p_user_id uuid,
+  p_symbol text,
+  p_amount numeric
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update crypto_assets
+     set amount = amount - p_amount,
+         updated_at = now()
+   where user_id = p_user_id
+     and symbol = upper(p_symbol);
+
+  delete from crypto_assets
+   where user_id = p_user_id
+     and symbol = upper(p_symbol)
+     and amount = 0;
+end;
+$$;
+
+-- Prices a swap of p_from_amount for the signed-in user. The 0.3% fee is
+-- taken from the asset received.
+create or replace function public.create_swap_quote(
+  p_from_symbol text,
+  p_to_symbol text,
+  p_from_amount numeric
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.003;
+  v_from_price numeric;
+  v_to_price numeric;
+  v_held numeric;
+  v_gross numeric;
+  v_fee numeric;
+  v_quote swap_quotes%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_from_amount is null or p_from_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if upper(p_from_symbol) = upper(p_to_symbol) then
+    return jsonb_build_object('success', false, 'code', 'SAME_ASSET');
+  end if;
+
+  if not exists (select 1 from crypto_prices where symbol = upper(p_from_symbol))
+     or not exists (select 1 from crypto_prices where symbol = upper(p_to_symbol)) then
+    return jsonb_build_object('success', false, 'code', 'UNSUPPORTED_ASSET');
+  end if;
+
+  v_from_price := crypto_price(p_from_symbol);
+  v_to_price := crypto_price(p_to_symbol);
+  if v_from_price is null or v_to_price is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE');
+  end if;
+
+  select amount into v_held
+    from crypto_assets
+   where user_id = auth.uid()
+     and symbol = upper(p_from_symbol);
+
+  if coalesce(v_held, 0) < p_from_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+  end if;
+
+  v_gross := round(p_from_amount * v_from_price / v_to_price, 8);
+  v_fee := round(v_gross * v_fee_rate, 8);
+
+  if v_gross - v_fee <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  insert into swap_quotes (
+    user_id, from_symbol, to_symbol, from_amount, to_amount, rate,
+    fee_amount, from_price_usd, to_price_usd, expires_at
+  )
+  values (
+    auth.uid(), upper(p_from_symbol), upper(p_to_symbol), p_from_amount, v_gross - v_fee,
+    v_from_price / v_to_price, v_fee, v_from_price, v_to_price, now() + interval '15 seconds'
+  )
+  returning * into v_quote;
+
+  return jsonb_build_object('success', true, 'quote', to_jsonb(v_quote));
+end;
+$$;
+
+-- Executes a quote: both legs, the cost basis and the record, atomically
+create or replace function public.execute_swap(p_quote_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quote swap_quotes%rowtype;
+  v_held numeric;
+  v_tx crypto_transactions%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  select * into v_quote
+    from swap_quotes
+   where id = p_quote_id
+     and user_id = auth.uid()
+     for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_NOT_FOUND');
+  end if;
+
+  if v_quote.executed_at is not null then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_USED');
+  end if;
+
+  if v_quote.expires_at <= now() then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_EXPIRED');
+  end if;
+
+  select amount into v_held
+    from crypto_assets
+   where user_id = auth.uid()
+     and symbol = v_quote.from_symbol
+     for update;
+
+  if coalesce(v_held, 0) < v_quote.from_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+  end if;
+
+  perform debit_crypto_asset(auth.uid(), v_quote.from_symbol, v_quote.from_amount);
+
+  -- The acquired units cost what was given up, fee included
+  perform credit_crypto_asset(
+    auth.uid(),
+    v_quote.to_symbol,
+    v_quote.to_amount,
+    v_quote.from_amount * v_quote.from_price_usd
+  );
+
+  insert into crypto_transactions (
+    user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+    rate, fee_amount, fee_symbol, from_price_usd, to_price_usd
+  )
+  values (
+    auth.uid(), 'swap', v_quote.from_symbol, v_quote.from_amount, v_quote.to_symbol, v_quote.to_amount,
+    v_quote.rate, v_quote.fee_amount, v_quote.to_symbol, v_quote.from_price_usd, v_quote.to_price_usd
+  )
+  returning * into v_tx;
+
+  if v_tx.fee_amount > 0 then
+    insert into crypto_fee_balances (symbol, amount)
+    values (v_tx.fee_symbol, v_tx.fee_amount)
+    on conflict (symbol) do update
+      set amount = crypto_fee_balances.amount + excluded.amount,
+          updated_at = now();
+  end if;
+
+  update swap_quotes
+     set executed_at = now(),
+         transaction_id = v_tx.id
+   where id = v_quote.id;
+
+  return jsonb_build_object('success', true, 'transaction', to_jsonb(v_tx));
+end;
+$$;
+
+revoke all on function public.record_crypto_prices(jsonb) from public;
+revoke all on function public.crypto_price(text) from public;
+revoke all on function public.credit_crypto_asset(uuid, text, numeric, numeric) from public;
+revoke all on function public.debit_crypto_asset(uuid, text, numeric) from public;
+revoke all on function public.create_swap_quote(text, text, numeric) from public;
+revoke all on function public.execute_swap(uuid) from public;
+-- Supabase grants new functions to anon and authenticated by default;
+-- the price feed and holding helpers are server-only
+revoke execute on function public.record_crypto_prices(jsonb) from anon, authenticated;
+revoke execute on function public.crypto_price(text) from anon, authenticated;
+revoke execute on function public.credit_crypto_asset(uuid, text, numeric, numeric) from anon, authenticated;
+revoke execute on function public.debit_crypto_asset(uuid, text, numeric) from anon, authenticated;
+grant execute on function public.record_crypto_prices(jsonb) to service_role;
+grant execute on function public.create_swap_quote(text, text, numeric) to authenticated;
+grant execute on function public.execute_swap(uuid) to authenticated;
@@ -0,0 +1,237 @@
+-- Slippage protection for swaps.
+--
+-- A quote now carries the user's slippage tolerance and the minimum it
+-- guarantees. execute_swap re-prices the swap from the live price list
+-- and fills at that price, unless the user would receive less than the
+-- minimum, in which case it returns PRICE_CHANGED and nothing moves.
+
+alter table public.swap_quotes
+  add column if not exists slippage_percent numeric not null default 1
+    check (slippage_percent >= 0 and slippage_percent <= 50),
+  add column if not exists min_to_amount numeric;
+
+update public.swap_quotes
+   set min_to_amount = to_amount
+ where min_to_amount is null;
+
+alter table public.swap_quotes
+  alter column min_to_amount set not null;
+
+drop function if exists public.create_swap_quote(text, text, numeric);
+
+-- Swap output after the 0.3% fee, from the current price list
+create or replace function public.swap_output(
+  p_from_symbol text,
+  p_to_symbol text,
+  p_from_amount numeric
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.003;
+  v_from_price numeric := crypto_price(p_from_symbol);
+  v_to_price numeric := crypto_price(p_to_symbol);
+  v_gross numeric;
+  v_fee numeric;
+begin
+  if v_from_price is null or v_to_price is null then
+    return null;
+  end if;
+
+  v_gross := round(p_from_amount * v_from_price / v_to_price, 8);
+  v_fee := round(v_gross * v_fee_rate, 8);
+
+  return jsonb_build_object(
+    'from_price_usd', v_from_price,
+    'to_price_usd', v_to_price,
+    'rate', v_from_price / v_to_price,
+    'fee_amount', v_fee,
+    'to_amount', v_gross - v_fee
+  );
+end;
+$$;
+
+-- Prices a swap for the signed-in user. The quote is valid for 15 seconds
+-- and guarantees at least to_amount less the slippage tolerance.
+create or replace function public.create_swap_quote(
+  p_from_symbol text,
+  p_to_symbol text,
+  p_from_amount numeric,
+  p_slippage_percent numeric default 1
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_output jsonb;
+  v_to_amount numeric;
+  v_held numeric;
+  v_quote swap_quotes%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_from_amount is null or p_from_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_slippage_percent is null or p_slippage_percent < 0 or p_slippage_percent > 50 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_SLIPPAGE');
+  end if;
+
+  if upper(p_from_symbol) = upper(p_to_symbol) then
+    return jsonb_build_object('success', false, 'code', 'SAME_ASSET');
+  end if;
+
+  if not exists (select 1 from crypto_prices where symbol = upper(p_from_symbol))
+     or not exists (select 1 from crypto_prices where symbol = upper(p_to_symbol)) then
+    return jsonb_build_object('success', false, 'code', 'UNSUPPORTED_ASSET');
+  end if;
+
+  v_output := swap_output(p_from_symbol, p_to_symbol, p_from_amount);
+  if v_output is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE');
+  end if;
+
+  v_to_amount := (v_output->>'to_amount')::numeric;
+  if v_to_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  select amount into v_held
+    from crypto_assets
+   where user_id = auth.uid()
+     and symbol = upper(p_from_symbol);
+
+  if coalesce(v_held, 0) < p_from_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+  end if;
+
+  insert into swap_quotes (
+    user_id, from_symbol, to_symbol, from_amount, to_amount, rate, fee_amount,
+    from_price_usd, to_price_usd, slippage_percent, min_to_amount, expires_at
+  )
+  values (
+    auth.uid(), upper(p_from_symbol), upper(p_to_symbol), p_from_amount, v_to_amount,
+    (v_output->>'rate')::numeric, (v_output->>'fee_amount')::numeric,
+    (v_output->>'from_price_usd')::numeric, (v_output->>'to_price_usd')::numeric,
+    p_slippage_percent, round(v_to_amount * (1 - p_slippage_percent / 100), 8),
+    now() + interval '15 seconds'
+  )
+  returning * into v_quote;
+
+  return jsonb_build_object('success', true, 'quote', to_jsonb(v_quote));
+end;
+$$;
+
+-- Executes a quote at the live price, within its slippage tolerance
+create or replace function public.execute_swap(p_quote_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quote swap_quotes%rowtype;
+  v_output jsonb;
+  v_to_amount numeric;
+  v_held numeric;
+  v_tx crypto_transactions%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  select * into v_quote
+    from swap_quotes
+   where id = p_quote_id
+     and user_id = auth.uid()
+     for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_NOT_FOUND');
+  end if;
+
+  if v_quote.executed_at is not null then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_USED');
+  end if;
+
+  if v_quote.expires_at <= now() then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_EXPIRED');
+  end if;
+
+  v_output := swap_output(v_quote.from_symbol, v_quote.to_symbol, v_quote.from_amount);
+  if v_output is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE');
+  end if;
+
+  v_to_amount := (v_output->>'to_amount')::numeric;
+  if v_to_amount < v_quote.min_to_amount then
+    return jsonb_build_object(
+      'success', false,
+      'code', 'PRICE_CHANGED',
+      'to_amount', v_to_amount,
+      'min_to_amount', v_quote.min_to_amount
+    );
+  end if;
+
+  select amount into v_held
+    from crypto_assets
+   where user_id = auth.uid()
+     and symbol = v_quote.from_symbol
+     for update;
+
+  if coalesce(v_held, 0) < v_quote.from_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+  end if;
+
+  perform debit_crypto_asset(auth.uid(), v_quote.from_symbol, v_quote.from_amount);
+
+  -- The acquired units cost what was given up, fee included
+  perform credit_crypto_asset(
+    auth.uid(),
+    v_quote.to_symbol,
+    v_to_amount,
+    v_quote.from_amount * (v_output->>'from_price_usd')::numeric
+  );
+
+  insert into crypto_transactions (
+    user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+    rate, fee_amount, fee_symbol, from_price_usd, to_price_usd
+  )
+  values (
+    auth.uid(), 'swap', v_quote.from_symbol, v_quote.from_amount, v_quote.to_symbol, v_to_amount,
+    (v_output->>'rate')::numeric, (v_output->>'fee_amount')::numeric, v_quote.to_symbol,
+    (v_output->>'from_price_usd')::numeric, (v_output->>'to_price_usd')::numeric
+  )
+  returning * into v_tx;
+
+  if v_tx.fee_amount > 0 then
+    insert into crypto_fee_balances (symbol, amount)
+    values (v_tx.fee_symbol, v_tx.fee_amount)
+    on conflict (symbol) do update
+      set amount = crypto_fee_balances.amount + excluded.amount,
+          updated_at = now();
+  end if;
+
+  update swap_quotes
+     set executed_at = now(),
+         transaction_id = v_tx.id
+   where id = v_quote.id;
+
+  return jsonb_build_object('success', true, 'transaction', to_jsonb(v_tx));
+end;
+$$;
+
+revoke all on function public.swap_output(text, text, numeric) from public;
+revoke execute on function public.swap_output(text, text, numeric) from anon, authenticated;
+revoke all on function public.create_swap_quote(text, text, numeric, numeric) from public;
+grant execute on function public.create_swap_quote(text, text, numeric, numeric) to authenticated;
@@ -0,0 +1,332 @@
+-- Buying and selling crypto with the PHP wallet balance.
+--
+-- A trade has two legs: the PHP leg moves through the ledger between the
+-- user's account and the system:crypto_desk house account, and the crypto
+-- leg moves the user's crypto_assets holding. execute_trade does both,
+-- records the trade in crypto_transactions and links the journal entry to
+-- it, all in one database transaction.
+--
+-- Prices come from crypto_prices (USD) and fx_rates (PHP per unit of a
+-- foreign currency). The same scheduled job that feeds crypto prices
+-- keeps the USD rate fresh via record_fx_rates; quotes refuse an FX rate
+-- older than one hour.
+
+create table if not exists public.fx_rates (
+  currency text primary key,
+  php_rate numeric check (php_rate > 0), -- PHP per one unit of currency
+  updated_at timestamptz
+);
+
+alter table public.fx_rates enable row level security;
+
+drop policy if exists "Anyone signed in reads fx rates" on public.fx_rates;
+create policy "Anyone signed in reads fx rates" on public.fx_rates
+  for select to authenticated using (true);
+
+insert into public.fx_rates (currency)
+values ('USD')
+on conflict (currency) do nothing;
+
+insert into public.ledger_accounts (code, kind)
+values ('system:crypto_desk', 'system')
+on conflict (code) do nothing;
+
+alter table public.crypto_transactions
+  drop constraint if exists crypto_transactions_kind_check;
+
+alter table public.crypto_transactions
+  add constraint crypto_transactions_kind_check check (kind in ('swap', 'buy', 'sell')),
+  add column if not exists fx_rate numeric; -- PHP per USD, for buys and sells
+
+-- The PHP leg of a trade has no row in transactions, so its journal entry
+-- points at the crypto transaction instead
+alter table public.journal_entries
+  add column if not exists crypto_transaction_id uuid
+    references public.crypto_transactions(id) on delete restrict;
+
+create index if not exists journal_entries_crypto_transaction_id_idx
+  on public.journal_entries (crypto_transaction_id);
+
+-- A priced offer to buy or sell one asset for PHP. Like swap quotes it is
+-- short-lived and single-use, and executes at exactly these amounts.
+create table if not exists public.trade_quotes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  side text not null check (side in ('buy', 'sell')),
+  symbol text not null references public.crypto_prices(symbol),
+  crypto_amount numeric not null check (crypto_amount > 0),
+  php_amount numeric not null check (php_amount > 0), -- Value of crypto_amount, before the fee
+  fee numeric not null default 0 check (fee >= 0),
+  total numeric not null check (total > 0), -- Paid on a buy, received on a sell
+  price_usd numeric not null,
+  php_per_usd numeric not null,
+  expires_at timestamptz not null,
+  executed_at timestamptz,
+  transaction_id uuid references public.crypto_transactions(id),
+  created_at timestamptz not null default now()
+);
+
+alter table public.trade_quotes enable row level security;
+
+drop policy if exists "Owners read trade quotes" on public.trade_quotes;
+create policy "Owners read trade quotes" on public.trade_quotes
+  for select to authenticated using (user_id = auth.uid());
+
+-- FX feed entry point: p_rates is { "USD": 58.12, ... } in PHP per unit
+create or replace function public.record_fx_rates(p_rates jsonb)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update fx_rates f
+     set php_rate = (r.value #>> '{}')::numeric,
+         updated_at = now()
+    from jsonb_each(p_rates) as r
+   where f.currency = upper(r.key)
+     and (r.value #>> '{}')::numeric > 0;
+$$;
+
+-- Current PHP per USD, or null when the rate is stale
+create or replace function public.php_per_usd()
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select php_rate
+    from fx_rates
+   where currency = 'USD'
+     and updated_at > now() - interval '1 hour';
+$$;
+
+-- Prices a trade for the signed-in user. On a buy p_amount is the PHP to
+-- spend, fee included; on a sell it is the units of p_symbol to sell. The
+-- 1% fee is always charged in PHP.
+create or replace function public.create_trade_quote(
+  p_side text,
+  p_symbol text,
+  p_amount numeric
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.01;
+  v_price numeric;
+  v_fx numeric;
+  v_crypto_amount numeric;
+  v_php_amount numeric;
+  v_fee numeric;
+  v_total numeric;
+  v_held numeric;
+  v_quote trade_quotes%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_side is null or p_side not in ('buy', 'sell') then
+    return jsonb_build_object('success', false, 'code', 'INVALID_SIDE');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if not exists (select 1 from crypto_prices where symbol = upper(p_symbol)) then
+    return jsonb_build_object('success', false, 'code', 'UNSUPPORTED_ASSET');
+  end if;
+
+  v_price := crypto_price(p_symbol);
+  v_fx := php_per_usd();
+  if v_price is null or v_fx is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE');
+  end if;
+
+  if p_side = 'buy' then
+    v_total := round(p_amount, 2);
+    v_fee := round(v_total * v_fee_rate, 2);
+    v_php_amount := v_total - v_fee;
+    v_crypto_amount := round(v_php_amount / v_fx / v_price, 8);
+
+    if v_crypto_amount <= 0 or v_php_amount <= 0 then
+      return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+    end if;
+
+    select balance into v_held from profiles where id = auth.uid();
+    if coalesce(v_held, 0) < v_total then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+    end if;
+  else
+    v_crypto_amount := p_amount;
+    v_php_amount := round(v_crypto_amount * v_price * v_fx, 2);
+    v_fee := round(v_php_amount * v_fee_rate, 2);
+    v_total := v_php_amount - v_fee;
+
+    if v_total <= 0 then
+      return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+    end if;
+
+    select amount into v_held
+      from crypto_assets
+     where user_id = auth.uid()
+       and symbol = upper(p_symbol);
+
+    if coalesce(v_held, 0) < v_crypto_amount then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+    end if;
+  end if;
+
+  insert into trade_quotes (
+    user_id, side, symbol, crypto_amount, php_amount, fee, total,
+    price_usd, php_per_usd, expires_at
+  )
+  values (
+    auth.uid(), p_side, upper(p_symbol), v_crypto_amount, v_php_amount, v_fee, v_total,
+    v_price, v_fx, now() + interval '15 seconds'
+  )
+  returning * into v_quote;
+
+  return jsonb_build_object('success', true, 'quote', to_jsonb(v_quote));
+end;
+$$;
+
+-- Executes a trade quote: the PHP leg through the ledger, the crypto leg
+-- on the holding, and the record linking them, atomically
+create or replace function public.execute_trade(p_quote_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quote trade_quotes%rowtype;
+  v_held numeric;
+  v_tx crypto_transactions%rowtype;
+  v_entry_id uuid;
+  v_postings jsonb;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  select * into v_quote
+    from trade_quotes
+   where id = p_quote_id
+     and user_id = auth.uid()
+     for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_NOT_FOUND');
+  end if;
+
+  if v_quote.executed_at is not null then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_USED');
+  end if;
+
+  if v_quote.expires_at <= now() then
+    return jsonb_build_object('success', false, 'code', 'QUOTE_EXPIRED');
+  end if;
+
+  if v_quote.side = 'buy' then
+    select balance into v_held
+      from profiles
+     where id = auth.uid()
+       for update;
+
+    if coalesce(v_held, 0) < v_quote.total then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+    end if;
+
+    -- The acquired units cost everything paid, fee included
+    perform credit_crypto_asset(
+      auth.uid(),
+      v_quote.symbol,
+      v_quote.crypto_amount,
+      v_quote.total / v_quote.php_per_usd
+    );
+
+    insert into crypto_transactions (
+      user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+      rate, fee_amount, fee_symbol, to_price_usd, fx_rate
+    )
+    values (
+      auth.uid(), 'buy', 'PHP', v_quote.total, v_quote.symbol, v_quote.crypto_amount,
+      1 / (v_quote.price_usd * v_quote.php_per_usd), v_quote.fee, 'PHP',
+      v_quote.price_usd, v_quote.php_per_usd
+    )
+    returning * into v_tx;
+
+    v_postings := jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(auth.uid()), 'debit', v_quote.total),
+      jsonb_build_object('account_id', ledger_system_account('system:crypto_desk'), 'credit', v_quote.php_amount)
+    );
+  else
+    select amount into v_held
+      from crypto_assets
+     where user_id = auth.uid()
+       and symbol = v_quote.symbol
+       for update;
+
+    if coalesce(v_held, 0) < v_quote.crypto_amount then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+    end if;
+
+    perform debit_crypto_asset(auth.uid(), v_quote.symbol, v_quote.crypto_amount);
+
+    insert into crypto_transactions (
+      user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+      rate, fee_amount, fee_symbol, from_price_usd, fx_rate
+    )
+    values (
+      auth.uid(), 'sell', v_quote.symbol, v_quote.crypto_amount, 'PHP', v_quote.total,
+      v_quote.price_usd * v_quote.php_per_usd, v_quote.fee, 'PHP',
+      v_quote.price_usd, v_quote.php_per_usd
+    )
+    returning * into v_tx;
+
+    v_postings := jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:crypto_desk'), 'debit', v_quote.php_amount),
+      jsonb_build_object('account_id', ledger_account_for(auth.uid()), 'credit', v_quote.total)
+    );
+  end if;
+
+  if v_quote.fee > 0 then
+    v_postings := v_postings || jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:fees'), 'credit', v_quote.fee)
+    );
+  end if;
+
+  v_entry_id := post_journal_entry(
+    'crypto_' || v_quote.side,
+    format('%s %s %s', initcap(v_quote.side), v_quote.crypto_amount, v_quote.symbol),
+    v_postings
+  );
+
+  update journal_entries
+     set crypto_transaction_id = v_tx.id
+   where id = v_entry_id;
+
+  update trade_quotes
+     set executed_at = now(),
+         transaction_id = v_tx.id
+   where id = v_quote.id;
+
+  return jsonb_build_object('success', true, 'transaction', to_jsonb(v_tx));
+end;
+$$;
+
+revoke all on function public.record_fx_rates(jsonb) from public;
+revoke all on function public.php_per_usd() from public;
+revoke all on function public.create_trade_quote(text, text, numeric) from public;
+revoke all on function public.execute_trade(uuid) from public;
+revoke execute on function public.record_fx_rates(jsonb) from anon, authenticated;
+revoke execute on function public.php_per_usd() from anon, authenticated;
+grant execute on function public.record_fx_rates(jsonb) to service_role;
+grant execute on function public.create_trade_quote(text, text, numeric) to authenticated;
+grant execute on function public.execute_trade(uuid) to authenticated;
@@ -0,0 +1,467 @@
+-- Resting limit and stop-loss orders on crypto.
+--
+-- An order waits for the market to cross its trigger price (PHP per unit):
+-- a limit buy fills at or below it, a limit sell at or above it, and a stop
+-- sells once the price falls to it. Opening an order reserves what it would
+-- spend: a buy moves the PHP cost plus fee from the user's account into the
+-- system:order_escrow house account, and a sell takes the units off the
+-- holding. Cancelling releases the reserve; filling settles from it.
+--
+-- match_crypto_orders fills every open order whose trigger the current
+-- price has crossed. record_crypto_prices and record_fx_rates run it after
+-- each update from the price job, so orders fill as soon as the CoinGecko
+-- feed crosses their trigger. Fills are recorded in crypto_transactions.
+
+-- Every asset CryptoService can price is tradable
+insert into public.crypto_prices (symbol, name, coin_id)
+values
+  ('BNB', 'BNB', 'binancecoin'),
+  ('XRP', 'XRP', 'ripple'),
+  ('ADA', 'Cardano', 'cardano'),
+  ('DOGE', 'Dogecoin', 'dogecoin'),
+  ('TRX', 'TRON', 'tron'),
+  ('TON', 'Toncoin', 'the-open-network'),
+  ('MATIC', 'Polygon', 'matic-network'),
+  ('DOT', 'Polkadot', 'polkadot'),
+  ('LTC', 'Litecoin', 'litecoin'),
+  ('SHIB', 'Shiba Inu', 'shiba-inu')
+on conflict (symbol) do nothing;
+
+insert into public.ledger_accounts (code, kind)
+values ('system:order_escrow', 'system')
+on conflict (code) do nothing;
+
+create table if not exists public.crypto_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  side text not null check (side in ('buy', 'sell')),
+  order_type text not null check (order_type in ('limit', 'stop')),
+  symbol text not null references public.crypto_prices(symbol),
+  crypto_amount numeric not null check (crypto_amount > 0),
+  trigger_price numeric not null check (trigger_price > 0), -- PHP per unit
+  reserved_php numeric not null default 0 check (reserved_php >= 0), -- Buys: cost plus fee at the trigger
+  reserved_cost_usd numeric not null default 0 check (reserved_cost_usd >= 0), -- Sells: cost basis of the units
+  status text not null default 'open' check (status in ('open', 'filled', 'cancelled')),
+  fill_price numeric, -- PHP per unit
+  created_at timestamptz not null default now(),
+  filled_at timestamptz,
+  cancelled_at timestamptz,
+  check (order_type = 'limit' or side = 'sell') -- Stops are stop-losses
+);
+
+create index if not exists crypto_orders_user_idx
+  on public.crypto_orders (user_id, created_at desc);
+create index if not exists crypto_orders_open_idx
+  on public.crypto_orders (symbol)
+  where status = 'open';
+
+alter table public.crypto_orders enable row level security;
+
+drop policy if exists "Owners read crypto orders" on public.crypto_orders;
+create policy "Owners read crypto orders" on public.crypto_orders
+  for select to authenticated using (user_id = auth.uid());
+
+alter table public.crypto_transactions
+  add column if not exists order_id uuid references public.crypto_orders(id);
+
+-- Reserve, release and fill entries point at their order
+alter table public.journal_entries
+  add column if not exists crypto_order_id uuid
+    references public.crypto_orders(id) on delete restrict;
+
+create index if not exists journal_entries_crypto_order_id_idx
+  on public.journal_entries (crypto_order_id);
+
+-- Fills one open order at the current price. Returns false, leaving the
+-- order as it is, if it is no longer open, the price is stale or no longer
+-- past the trigger, or the fill would be worth nothing.
+create or replace function public.fill_crypto_order(p_order_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.01;
+  v_order crypto_orders%rowtype;
+  v_price_usd numeric;
+  v_php_per_usd numeric;
+  v_price_php numeric;
+  v_php_amount numeric;
+  v_fee numeric;
+  v_total numeric;
+  v_tx crypto_transactions%rowtype;
+  v_postings jsonb;
+  v_entry_id uuid;
+begin
+  select * into v_order
+    from crypto_orders
+   where id = p_order_id
+     for update;
+
+  if not found or v_order.status <> 'open' then
+    return false;
+  end if;
+
+  v_price_usd := crypto_price(v_order.symbol);
+  v_php_per_usd := php_per_usd();
+  if v_price_usd is null or v_php_per_usd is null then
+    return false;
+  end if;
+
+  v_price_php := v_price_usd * v_php_per_usd;
+
+  -- A limit buy must never fill above its trigger, or it would cost more
+  -- than was reserved
+  if case
+       when v_order.order_type = 'limit' and v_order.side = 'buy' then v_price_php > v_order.trigger_price
+       when v_order.order_type = 'limit' and v_order.side = 'sell' then v_price_php < v_order.trigger_price
+       else v_price_php > v_order.trigger_price
+     end then
+    return false;
+  end if;
+
+  v_php_amount := round(v_order.crypto_amount * v_price_php, 2);
+  v_fee := round(v_php_amount * v_fee_rate, 2);
+
+  if v_php_amount <= 0 then
+    return false;
+  end if;
+
+  if v_order.side = 'buy' then
+    -- The fill is at or below the trigger, so it costs no more than was
+    -- reserved; the difference goes back to the user
+    v_total := v_php_amount + v_fee;
+
+    perform credit_crypto_asset(
+      v_order.user_id,
+      v_order.symbol,
+      v_order.crypto_amount,
+      v_total / v_php_per_usd
+    );
+
+    insert into crypto_transactions (
+      user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+      rate, fee_amount, fee_symbol, to_price_usd, fx_rate, order_id
+    )
+    values (
+      v_order.user_id, 'buy', 'PHP', v_total, v_order.symbol, v_order.crypto_amount,
+      1 / v_price_php, v_fee, 'PHP', v_price_usd, v_php_per_usd, v_order.id
+    )
+    returning * into v_tx;
+
+    v_postings := jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:order_escrow'), 'debit', v_order.reserved_php),
+      jsonb_build_object('account_id', ledger_system_account('system:crypto_desk'), 'credit', v_php_amount)
+    );
+    if v_order.reserved_php > v_total then
+      v_postings := v_postings || jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_for(v_order.user_id), 'credit', v_order.reserved_php - v_total)
+      );
+    end if;
+  else
+    v_total := v_php_amount - v_fee;
+
+    insert into crypto_transactions (
+      user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+      rate, fee_amount, fee_symbol, from_price_usd, fx_rate, order_id
+    )
+    values (
+      v_order.user_id, 'sell', v_order.symbol, v_order.crypto_amount, 'PHP', v_total,
+      v_price_php, v_fee, 'PHP', v_price_usd, v_php_per_usd, v_order.id
+    )
+    returning * into v_tx;
+
+    v_postings := jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:crypto_desk'), 'debit', v_php_amount),
+      jsonb_build_object('account_id', ledger_account_for(v_order.user_id), 'credit', v_total)
+    );
+  end if;
+
+  if v_fee > 0 then
+    v_postings := v_postings || jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:fees'), 'credit', v_fee)
+    );
+  end if;
+
+  v_entry_id := post_journal_entry(
+    'crypto_order_fill',
+    format('%s %s order filled: %s %s', initcap(v_order.order_type), v_order.side, v_order.crypto_amount, v_order.symbol),
+    v_postings
+  );
+
+  update journal_entries
+     set crypto_transaction_id = v_tx.id,
+         crypto_order_id = v_order.id
+   where id = v_entry_id;
+
+  update crypto_orders
+     set status = 'filled',
+         fill_price = v_price_php,
+         filled_at = now()
+   where id = v_order.id;
+
+  return true;
+end;
+$$;
+
+-- Fills every open order whose trigger the current price has crossed.
+-- Orders on assets with a stale price wait for the next update.
+create or replace function public.match_crypto_orders(p_symbol text default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fx numeric := php_per_usd();
+  v_order record;
+  v_filled integer := 0;
+begin
+  if v_fx is null then
+    return 0;
+  end if;
+
+  for v_order in
+    select o.id
+      from crypto_orders o
+      join crypto_prices p on p.symbol = o.symbol
+     where o.status = 'open'
+       and (p_symbol is null or o.symbol = upper(p_symbol))
+       and p.updated_at > now() - interval '2 minutes'
+       and case
+             when o.order_type = 'limit' and o.side = 'buy' then p.price_usd * v_fx <= o.trigger_price
+             when o.order_type = 'limit' and o.side = 'sell' then p.price_usd * v_fx >= o.trigger_price
+             else p.price_usd * v_fx <= o.trigger_price
+           end
+     order by o.created_at
+       for update of o skip locked
+  loop
+    if fill_crypto_order(v_order.id) then
+      v_filled := v_filled + 1;
+    end if;
+  end loop;
+
+  return v_filled;
+end;
+$$;
+
+-- Opens an order for the signed-in user and reserves what it would spend.
+-- A buy reserves the cost at the trigger price plus the 1% fee.
+create or replace function public.place_crypto_order(
+  p_side text,
+  p_order_type text,
+  p_symbol text,
+  p_amount numeric,
+  p_trigger_price numeric
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.01;
+  v_php_amount numeric;
+  v_reserve numeric;
+  v_held numeric;
+  v_cost numeric;
+  v_balance numeric;
+  v_order crypto_orders%rowtype;
+  v_entry_id uuid;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  if p_side is null or p_side not in ('buy', 'sell') then
+    return jsonb_build_object('success', false, 'code', 'INVALID_SIDE');
+  end if;
+
+  if p_order_type is null or p_order_type not in ('limit', 'stop')
+     or (p_order_type = 'stop' and p_side <> 'sell') then
+    return jsonb_build_object('success', false, 'code', 'INVALID_ORDER_TYPE');
+  end if;
+
+  if p_trigger_price is null or p_trigger_price <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_PRICE');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if not exists (select 1 from crypto_prices where symbol = upper(p_symbol)) then
+    return jsonb_build_object('success', false, 'code', 'UNSUPPORTED_ASSET');
+  end if;
+
+  v_php_amount := round(p_amount * p_trigger_price, 2);
+  if v_php_amount < 1 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  if p_side = 'buy' then
+    v_reserve := v_php_amount + round(v_php_amount * v_fee_rate, 2);
+
+    select balance into v_balance
+      from profiles
+     where id = auth.uid()
+       for update;
+
+    if coalesce(v_balance, 0) < v_reserve then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_balance, 0));
+    end if;
+
+    insert into crypto_orders (user_id, side, order_type, symbol, crypto_amount, trigger_price, reserved_php)
+    values (auth.uid(), p_side, p_order_type, upper(p_symbol), p_amount, p_trigger_price, v_reserve)
+    returning * into v_order;
+
+    v_entry_id := post_journal_entry(
+      'crypto_order_reserve',
+      format('Reserve for %s buy order: %s %s', p_order_type, p_amount, upper(p_symbol)),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_for(auth.uid()), 'debit', v_reserve),
+        jsonb_build_object('account_id', ledger_system_account('system:order_escrow'), 'credit', v_reserve)
+      )
+    );
+
+    update journal_entries set crypto_order_id = v_order.id where id = v_entry_id;
+  else
+    select amount, amount * purchase_price_usd into v_held, v_cost
+      from crypto_assets
+     where user_id = auth.uid()
+       and symbol = upper(p_symbol)
+       for update;
+
+    if coalesce(v_held, 0) < p_amount then
+      return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_held, 0));
+    end if;
+
+    -- The reserved units keep their share of the holding's cost basis so a
+    -- cancel puts them back at the same average price
+    v_cost := v_cost * p_amount / v_held;
+
+    perform debit_crypto_asset(auth.uid(), p_symbol, p_amount);
+
+    insert into crypto_orders (user_id, side, order_type, symbol, crypto_amount, trigger_price, reserved_cost_usd)
+    values (auth.uid(), p_side, p_order_type, upper(p_symbol), p_amount, p_trigger_price, v_cost)
+    returning * into v_order;
+  end if;
+
+  -- An order placed on the other side of the market fills straight away.
+  -- Only this order: other users' orders are left to the matcher so this
+  -- call never locks their rows
+  perform fill_crypto_order(v_order.id);
+
+  select * into v_order from crypto_orders where id = v_order.id;
+
+  return jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+end;
+$$;
+
+-- Cancels one of the signed-in user's open orders and releases its reserve
+create or replace function public.cancel_crypto_order(p_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order crypto_orders%rowtype;
+  v_entry_id uuid;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED');
+  end if;
+
+  select * into v_order
+    from crypto_orders
+   where id = p_order_id
+     and user_id = auth.uid()
+     for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status <> 'open' then
+    return jsonb_build_object('success', false, 'code', 'ORDER_CLOSED');
+  end if;
+
+  if v_order.side = 'buy' then
+    v_entry_id := post_journal_entry(
+      'crypto_order_release',
+      format('Cancelled %s buy order: %s %s', v_order.order_type, v_order.crypto_amount, v_order.symbol),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_system_account('system:order_escrow'), 'debit', v_order.reserved_php),
+        jsonb_build_object('account_id', ledger_account_for(auth.uid()), 'credit', v_order.reserved_php)
+      )
+    );
+
+    update journal_entries set crypto_order_id = v_order.id where id = v_entry_id;
+  else
+    perform credit_crypto_asset(auth.uid(), v_order.symbol, v_order.crypto_amount, v_order.reserved_cost_usd);
+  end if;
+
+  update crypto_orders
+     set status = 'cancelled',
+         cancelled_at = now()
+   where id = v_order.id
+  returning * into v_order;
+
+  return jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+end;
+$$;
+
+-- Price feed entry points, now matching orders after every update
+create or replace function public.record_crypto_prices(p_prices jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update crypto_prices c
+     set price_usd = (p.value #>> '{}')::numeric,
+         updated_at = now()
+    from jsonb_each(p_prices) as p
+   where c.symbol = upper(p.key)
+     and (p.value #>> '{}')::numeric > 0;
+
+  perform match_crypto_orders();
+end;
+$$;
+
+create or replace function public.record_fx_rates(p_rates jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update fx_rates f
+     set php_rate = (r.value #>> '{}')::numeric,
+         updated_at = now()
+    from jsonb_each(p_rates) as r
+   where f.currency = upper(r.key)
+     and (r.value #>> '{}')::numeric > 0;
+
+  perform match_crypto_orders();
+end;
+$$;
+
+revoke all on function public.fill_crypto_order(uuid) from public;
+revoke all on function public.match_crypto_orders(text) from public;
+revoke execute on function public.fill_crypto_order(uuid) from anon, authenticated;
+revoke execute on function public.match_crypto_orders(text) from anon, authenticated;
+revoke all on function public.record_crypto_prices(jsonb) from public;
+revoke execute on function public.record_crypto_prices(jsonb) from anon, authenticated;
+revoke all on function public.record_fx_rates(jsonb) from public;
+revoke execute on function public.record_fx_rates(jsonb) from anon, authenticated;
+revoke all on function public.place_crypto_order(text, text, text, numeric, numeric) from public;
+revoke all on function public.cancel_crypto_order(uuid) from public;
+grant execute on function public.match_crypto_orders(text) to service_role;
+grant execute on function public.record_crypto_prices(jsonb) to service_role;
+grant execute on function public.record_fx_rates(jsonb) to service_role;
+grant execute on function public.place_crypto_order(text, text, text, numeric, numeric) to authenticated;
+grant execute on function public.cancel_crypto_order(uuid) to authenticated;
@@ -0,0 +1,286 @@
+-- Recurring crypto buys (dollar-cost averaging).
+--
+-- A plan spends a fixed PHP amount on one asset every week or month,
+-- anchored like scheduled transfers: occurrences are start_at plus
+-- run_count periods. run_due_recurring_buys buys at the prevailing price
+-- through the same legs as an instant buy (ledger entry against
+-- system:crypto_desk, holding credited at its cost so purchase_price_usd
+-- stays the average entry) and logs every attempt in recurring_buy_runs.
+-- Each plan keeps running totals so its average entry price covers its
+-- whole history.
+
+create table if not exists public.recurring_buys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  symbol text not null references public.crypto_prices(symbol),
+  php_amount numeric not null check (php_amount >= 1), -- Spent per run, fee included
+  frequency text not null check (frequency in ('weekly', 'monthly')),
+  start_at timestamptz not null,
+  run_count integer not null default 0,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  status text not null default 'active'
+    check (status in ('active', 'paused', 'cancelled')),
+  total_invested_php numeric not null default 0,
+  total_crypto_amount numeric not null default 0,
+  total_cost_usd numeric not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists recurring_buys_due_idx
+  on public.recurring_buys (next_run_at)
+  where status = 'active';
+create index if not exists recurring_buys_user_idx
+  on public.recurring_buys (user_id, created_at desc);
+
+-- One row per execution attempt, successful or not
+create table if not exists public.recurring_buy_runs (
+  id uuid primary key default gen_random_uuid(),
+  plan_id uuid not null references public.recurring_buys(id) on delete cascade,
+  scheduled_for timestamptz not null,
+  executed_at timestamptz not null default now(),
+  status text not null check (status in ('succeeded', 'failed')),
+  transaction_id uuid references public.crypto_transactions(id),
+  php_amount numeric,
+  crypto_amount numeric,
+  price_usd numeric,
+  fx_rate numeric,
+  error_code text,
+  error_message text,
+  unique (plan_id, scheduled_for)
+);
+
+create index if not exists recurring_buy_runs_plan_idx
+  on public.recurring_buy_runs (plan_id, executed_at desc);
+
+alter table public.recurring_buys enable row level security;
+alter table public.recurring_buy_runs enable row level security;
+
+drop policy if exists "Owners manage own recurring buys" on public.recurring_buys;
+create policy "Owners manage own recurring buys" on public.recurring_buys
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Run counters and totals are written only by the runner; owners create
+-- plans, change the amount and pause, resume or cancel them
+revoke insert, update on public.recurring_buys from anon, authenticated;
+grant insert (user_id, symbol, php_amount, frequency, start_at, next_run_at)
+  on public.recurring_buys to authenticated;
+grant update (php_amount, status, updated_at)
+  on public.recurring_buys to authenticated;
+
+drop policy if exists "Owners read own recurring buy runs" on public.recurring_buy_runs;
+create policy "Owners read own recurring buy runs" on public.recurring_buy_runs
+  for select to authenticated using (
+    plan_id in (select id from public.recurring_buys where user_id = auth.uid())
+  );
+
+-- Resuming a paused plan skips the buys it missed while paused
+create or replace function public.recurring_buys_skip_missed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'paused' and new.status = 'active' then
+    new.run_count := scheduled_transfer_next_index(new.start_at, new.frequency, new.run_count);
+    new.next_run_at := scheduled_transfer_occurrence(new.start_at, new.frequency, new.run_count);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists recurring_buys_skip_missed on public.recurring_buys;
+create trigger recurring_buys_skip_missed
+  before update of status on public.recurring_buys
+  for each row execute function public.recurring_buys_skip_missed();
+
+alter table public.crypto_transactions
+  add column if not exists recurring_buy_id uuid references public.recurring_buys(id);
+
+-- One buy for a plan (already locked by the caller) at the current price
+create or replace function public.perform_recurring_buy(p_plan_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fee_rate constant numeric := 0.01;
+  v_plan recurring_buys%rowtype;
+  v_price numeric;
+  v_fx numeric;
+  v_balance numeric;
+  v_fee numeric;
+  v_php_amount numeric;
+  v_crypto_amount numeric;
+  v_tx crypto_transactions%rowtype;
+  v_entry_id uuid;
+begin
+  select * into v_plan from recurring_buys where id = p_plan_id;
+
+  v_price := crypto_price(v_plan.symbol);
+  v_fx := php_per_usd();
+  if v_price is null or v_fx is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE');
+  end if;
+
+  v_fee := round(v_plan.php_amount * v_fee_rate, 2);
+  v_php_amount := v_plan.php_amount - v_fee;
+  v_crypto_amount := round(v_php_amount / v_fx / v_price, 8);
+
+  if v_crypto_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT');
+  end if;
+
+  select balance into v_balance
+    from profiles
+   where id = v_plan.user_id
+     for update;
+
+  if coalesce(v_balance, 0) < v_plan.php_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_FUNDS', 'available', coalesce(v_balance, 0));
+  end if;
+
+  perform credit_crypto_asset(
+    v_plan.user_id,
+    v_plan.symbol,
+    v_crypto_amount,
+    v_plan.php_amount / v_fx
+  );
+
+  insert into crypto_transactions (
+    user_id, kind, from_symbol, from_amount, to_symbol, to_amount,
+    rate, fee_amount, fee_symbol, to_price_usd, fx_rate, recurring_buy_id
+  )
+  values (
+    v_plan.user_id, 'buy', 'PHP', v_plan.php_amount, v_plan.symbol, v_crypto_amount,
+    1 / (v_price * v_fx), v_fee, 'PHP', v_price, v_fx, v_plan.id
+  )
+  returning * into v_tx;
+
+  v_entry_id := post_journal_entry(
+    'crypto_recurring_buy',
+    format('Recurring buy: %s %s', v_crypto_amount, v_plan.symbol),
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_for(v_plan.user_id), 'debit', v_plan.php_amount),
+      jsonb_build_object('account_id', ledger_system_account('system:crypto_desk'), 'credit', v_php_amount)
+    ) || case when v_fee > 0 then jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('system:fees'), 'credit', v_fee)
+    ) else '[]'::jsonb end
+  );
+
+  update journal_entries
+     set crypto_transaction_id = v_tx.id
+   where id = v_entry_id;
+
+  return jsonb_build_object('success', true, 'transaction', to_jsonb(v_tx));
+end;
+$$;
+
+-- Executes every due active plan. The service role or a pg_cron job runs
+-- all users; a signed-in user may only run their own. While prices are
+-- unavailable a due plan is left for the next run rather than skipped.
+create or replace function public.run_due_recurring_buys(p_user_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_plan recurring_buys%rowtype;
+  v_result jsonb;
+  v_succeeded boolean;
+  v_tx jsonb;
+  v_next_index integer;
+  v_processed integer := 0;
+begin
+  -- Only the service role, or pg_cron (which runs without a JWT and so
+  -- without a role), may run everything; anyone else only their own
+  if p_user_id is null then
+    if coalesce(auth.role(), 'service_role') <> 'service_role' then
+      raise exception 'not allowed to run these plans';
+    end if;
+  elsif p_user_id is distinct from auth.uid() then
+    raise exception 'not allowed to run these plans';
+  end if;
+
+  for v_plan in
+    select *
+      from recurring_buys
+     where status = 'active'
+       and next_run_at <= now()
+       and (p_user_id is null or user_id = p_user_id)
+     order by next_run_at
+       for update skip locked
+  loop
+    v_result := perform_recurring_buy(v_plan.id);
+
+    if v_result ->> 'code' = 'PRICE_UNAVAILABLE' then
+      continue;
+    end if;
+
+    v_succeeded := coalesce((v_result ->> 'success')::boolean, false);
+    v_tx := v_result -> 'transaction';
+
+    insert into recurring_buy_runs (
+      plan_id, scheduled_for, status, transaction_id, php_amount, crypto_amount,
+      price_usd, fx_rate, error_code, error_message
+    )
+    values (
+      v_plan.id,
+      v_plan.next_run_at,
+      case when v_succeeded then 'succeeded' else 'failed' end,
+      (v_tx ->> 'id')::uuid,
+      (v_tx ->> 'from_amount')::numeric,
+      (v_tx ->> 'to_amount')::numeric,
+      (v_tx ->> 'to_price_usd')::numeric,
+      (v_tx ->> 'fx_rate')::numeric,
+      v_result ->> 'code',
+      case v_result ->> 'code'
+        when 'INSUFFICIENT_FUNDS' then format(
+          'Insufficient balance: needed %s, available %s',
+          v_plan.php_amount, v_result ->> 'available'
+        )
+        when 'INVALID_AMOUNT' then 'Amount is too small to buy at the current price'
+        else null
+      end
+    );
+
+    -- A failed run stays in the history; the plan moves on to its next
+    -- future occurrence either way, so a plan that fell behind buys once
+    -- rather than once for every occurrence it missed
+    v_next_index := scheduled_transfer_next_index(
+      v_plan.start_at, v_plan.frequency, v_plan.run_count + 1
+    );
+
+    update recurring_buys
+       set run_count = v_next_index,
+           last_run_at = now(),
+           next_run_at = scheduled_transfer_occurrence(start_at, frequency, v_next_index),
+           total_invested_php = total_invested_php + coalesce((v_tx ->> 'from_amount')::numeric, 0),
+           total_crypto_amount = total_crypto_amount + coalesce((v_tx ->> 'to_amount')::numeric, 0),
+           total_cost_usd = total_cost_usd
+             + coalesce((v_tx ->> 'from_amount')::numeric / (v_tx ->> 'fx_rate')::numeric, 0),
+           updated_at = now()
+     where id = v_plan.id;
+
+    v_processed := v_processed + 1;
+  end loop;
+
+  return v_processed;
+end;
+$$;
+
+revoke all on function public.perform_recurring_buy(uuid) from public;
+revoke all on function public.run_due_recurring_buys(uuid) from public;
+revoke execute on function public.run_due_recurring_buys(uuid) from anon;
+revoke execute on function public.perform_recurring_buy(uuid) from anon, authenticated;
+grant execute on function public.run_due_recurring_buys(uuid) to authenticated, service_role;
+
+-- With pg_cron enabled, run the plans every five minutes:
+--   select cron.schedule('run-recurring-buys', '*/5 * * * *',
+--     $$select public.run_due_recurring_buys()$$);